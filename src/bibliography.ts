@@ -0,0 +1,275 @@
+import { format } from 'date-fns/format';
+import { Reference } from './citations.js';
+
+export const bibliographyFormats = [
+  'footnotes',
+  'apa',
+  'mla',
+  'bibtex',
+  'csl-json',
+] as const;
+export type BibliographyFormat = (typeof bibliographyFormats)[number];
+
+/** File each format is saved as, next to the post */
+export const bibliographyFiles: Record<BibliographyFormat, string> = {
+  footnotes: 'references.md',
+  apa: 'references-apa.md',
+  mla: 'references-mla.md',
+  bibtex: 'references.bib',
+  'csl-json': 'references.csl.json',
+};
+
+interface Name {
+  family?: string;
+  given?: string;
+  /** Organizations and anything else that isn't a person's name */
+  literal?: string;
+}
+
+// Lowercase words that belong in a person's name
+const NAME_PARTICLES = /^(van|von|der|den|de|del|della|da|di|du|la|le|bin|al)$/;
+
+// Words that mark a name as an organization's
+const ORGANIZATION_WORDS = new Set(
+  `the inc ltd llc co corp corporation company group press news times post
+  journal magazine media network review institute university college
+  association society foundation agency department ministry office council
+  committee commission bureau center centre lab labs team staff editors
+  board`.split(/\s+/)
+);
+
+// Two to four capitalized words, initials or name particles, none of them
+// an acronym or an organization word
+const isPersonName = (words: string[]) =>
+  words.length >= 2 &&
+  words.length <= 4 &&
+  words.every(
+    (word) =>
+      !ORGANIZATION_WORDS.has(word.toLowerCase().replace(/\.$/, '')) &&
+      !/^\p{Lu}{2,}$/u.test(word) &&
+      (NAME_PARTICLES.test(word) || /^\p{Lu}[\p{L}'’.-]*$/u.test(word))
+  );
+
+/**
+ * Splits an author line ("Jane Doe, John Smith", "Doe, J.", "Reuters")
+ * into names. A comma is only read as "family, given" when an initial
+ * follows it, so "Apple, Google" stays two names. Anything that doesn't
+ * look like a person's name ("The New York Times", "Bank of England") is
+ * kept whole as an organization.
+ */
+export function parseNames(author: string | undefined): Name[] {
+  if (!author?.trim()) return [];
+  const inverted = author.match(/^\s*([^,\s]+),\s*([^,]+?)\s*$/);
+  if (inverted && /(^|\s)\p{Lu}\./u.test(inverted[2])) {
+    return [{ family: inverted[1], given: inverted[2] }];
+  }
+  return author
+    .split(/\s*(?:[,;&]|\band\b)\s*/)
+    .filter(Boolean)
+    .map((name) => {
+      const words = name.split(/\s+/);
+      return isPersonName(words)
+        ? { family: words.pop(), given: words.join(' ') }
+        : { literal: name };
+    });
+}
+
+const initials = (given: string) =>
+  given
+    .split(/[\s-]+/)
+    .map((part) => `${part[0]}.`)
+    .join(' ');
+
+// `YYYY-MM-DD` read as a local date, so formatting doesn't shift the day
+const toDate = (date: string) => {
+  const [year, month = 1, day = 1] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// With the serial comma, which both APA and MLA use
+function joinList(items: string[], and: string) {
+  if (items.length < 2) return items.join('');
+  return `${items.slice(0, -1).join(', ')}, ${and} ${items[items.length - 1]}`;
+}
+
+// Entries sort by their first word, not the quote or emphasis before it
+const alphabetical = (a: string, b: string) =>
+  a
+    .replace(/^[^\p{L}\p{N}]+/u, '')
+    .localeCompare(b.replace(/^[^\p{L}\p{N}]+/u, ''));
+
+// Ends a title with a period unless it has its own punctuation
+const sentence = (text: string) => (/[.?!]$/.test(text) ? text : `${text}.`);
+
+/** "Doe, J., & Smith, J. (2024, March 3). Title. Publisher. URL" */
+export function formatApa(ref: Reference) {
+  const authors = parseNames(ref.author).map((name) =>
+    name.literal ? name.literal : `${name.family}, ${initials(name.given!)}`
+  );
+  const date = ref.published
+    ? format(toDate(ref.published), 'yyyy, MMMM d')
+    : 'n.d.';
+  const publisher =
+    ref.publisher && !authors.includes(ref.publisher)
+      ? `${ref.publisher}. `
+      : '';
+  // Undated pages can change, so APA asks when they were read
+  const retrieved =
+    !ref.published && ref.accessed
+      ? `Retrieved ${format(toDate(ref.accessed), 'MMMM d, yyyy')}, from `
+      : '';
+  const lead = authors.length
+    ? `${joinList(authors, '&')} (${date}). *${sentence(ref.title)}*`
+    : `*${sentence(ref.title)}* (${date}).`;
+  return `${lead} ${publisher}${retrieved}${ref.url}`;
+}
+
+// MLA abbreviates months longer than four letters, and September to Sept.
+const MLA_MONTHS = [
+  'Jan.',
+  'Feb.',
+  'Mar.',
+  'Apr.',
+  'May',
+  'June',
+  'July',
+  'Aug.',
+  'Sept.',
+  'Oct.',
+  'Nov.',
+  'Dec.',
+];
+
+function mlaDate(date: string) {
+  const parsed = toDate(date);
+  return `${parsed.getDate()} ${
+    MLA_MONTHS[parsed.getMonth()]
+  } ${parsed.getFullYear()}`;
+}
+
+/** "Doe, Jane, and John Smith. “Title.” Publisher, 3 Mar. 2024, URL." */
+export function formatMla(ref: Reference) {
+  const names = parseNames(ref.author);
+  const authors = names.map((name, i) =>
+    name.literal
+      ? name.literal
+      : i === 0
+        ? `${name.family}, ${name.given}`
+        : `${name.given} ${name.family}`
+  );
+  const author =
+    names.length > 2
+      ? `${authors[0]}, et al. `
+      : authors.length
+        ? `${sentence(joinList(authors, 'and'))} `
+        : '';
+  const container = [
+    ref.publisher || ref.site,
+    ref.published && mlaDate(ref.published),
+    ref.url.replace(/^https?:\/\//, ''),
+  ].filter(Boolean);
+  const accessed = ref.accessed ? ` Accessed ${mlaDate(ref.accessed)}.` : '';
+  return `${author}“${sentence(ref.title)}” ${container.join(', ')}.${accessed}`;
+}
+
+// Characters with a meaning of their own in BibTeX
+const escapeBibtex = (text: string) => text.replace(/([&%$#_{}])/g, '\\$1');
+
+function bibtexKey(ref: Reference, used: Set<string>) {
+  const [first] = parseNames(ref.author);
+  const base = (first?.family || first?.literal || ref.site)
+    .toLowerCase()
+    .replace(/^www\./, '')
+    .replace(/[^a-z0-9]/g, '');
+  const year = ref.published?.slice(0, 4) || 'nd';
+  let key = `${base}${year}`;
+  // a, b, c... for the same author and year
+  for (let i = 0; used.has(key); i++) {
+    key = `${base}${year}${String.fromCharCode(97 + i)}`;
+  }
+  used.add(key);
+  return key;
+}
+
+/** `@online` entries, as biblatex expects for web pages */
+export function formatBibtex(references: Reference[]) {
+  const used = new Set<string>();
+  return references
+    .map((ref) => {
+      // Braces keep an organization from being read as family and given
+      // names, so names are escaped before they're added
+      const authors = parseNames(ref.author).map((name) =>
+        name.literal
+          ? `{${escapeBibtex(name.literal)}}`
+          : escapeBibtex(`${name.family}, ${name.given}`)
+      );
+      const fields: Array<[string, string | undefined]> = [
+        ['title', ref.title],
+        ['author', authors.length ? authors.join(' and ') : undefined],
+        ['organization', ref.publisher],
+        ['date', ref.published],
+        ['urldate', ref.accessed],
+        ['abstract', ref.excerpt],
+      ];
+      const lines = fields
+        .filter((field): field is [string, string] => !!field[1])
+        .map(([name, value]) => {
+          // Double braces keep the title's capitalization
+          const escaped = name === 'author' ? value : escapeBibtex(value);
+          return `  ${name} = {${name === 'title' ? `{${escaped}}` : escaped}},`;
+        });
+      // URLs are verbatim in biblatex, so they aren't escaped
+      lines.push(`  url = {${ref.url}}`);
+      return `@online{${bibtexKey(ref, used)},\n${lines.join('\n')}\n}`;
+    })
+    .join('\n\n');
+}
+
+const cslDate = (date: string | undefined) =>
+  date && { 'date-parts': [date.split('-').map(Number)] };
+
+/** CSL-JSON items, the input format of citeproc, Pandoc and Zotero */
+export function toCslJson(references: Reference[]) {
+  return references.map((ref, i) => ({
+    id: `ref-${i + 1}`,
+    type: 'webpage',
+    title: ref.title,
+    author: parseNames(ref.author),
+    'container-title': ref.publisher || ref.site,
+    URL: ref.url,
+    issued: cslDate(ref.published),
+    accessed: cslDate(ref.accessed),
+    abstract: ref.excerpt,
+  }));
+}
+
+/** Markdown footnotes numbered like the post's `[^n]` markers */
+export function formatFootnotes(references: Reference[]) {
+  return references
+    .map(
+      (ref, i) =>
+        `[^${i + 1}]: [${ref.title}](${ref.url}) via ${ref.site}${
+          ref.published ? `, ${ref.published}` : ''
+        }`
+    )
+    .join('\n');
+}
+
+/** Renders a post's references in one of `bibliographyFormats` */
+export function formatBibliography(
+  references: Reference[],
+  bibliographyFormat: BibliographyFormat
+): string {
+  switch (bibliographyFormat) {
+    case 'footnotes':
+      return formatFootnotes(references);
+    case 'apa':
+      return references.map(formatApa).sort(alphabetical).join('\n\n');
+    case 'mla':
+      return references.map(formatMla).sort(alphabetical).join('\n\n');
+    case 'bibtex':
+      return formatBibtex(references);
+    case 'csl-json':
+      return JSON.stringify(toCslJson(references), null, 2);
+  }
+}
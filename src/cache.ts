@@ -0,0 +1,193 @@
+import {
+  Experimental_LanguageModelV1Middleware,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+} from 'ai';
+import { webcrypto } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getStringFromBuffer } from './utils.js';
+
+export const cacheKinds = [
+  'search',
+  'page',
+  'robots',
+  'llm',
+  'embedding',
+] as const;
+
+export type CacheKind = (typeof cacheKinds)[number];
+
+export interface CacheOptions {
+  dir: string;
+  /** When false nothing is read or written */
+  enabled: boolean;
+  /** Ignore existing entries but still write fresh ones */
+  refresh: boolean;
+  /** Seconds an entry stays valid, per kind */
+  ttl: Record<CacheKind, number>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  /** Entries that couldn't be written, e.g. to a full or read-only disk */
+  failures: number;
+}
+
+export interface Cache {
+  /**
+   * Returns the cached value for `key` if there is a fresh one, otherwise
+   * computes, stores and returns it. Failures are never cached.
+   */
+  wrap<T>(
+    kind: CacheKind,
+    key: unknown,
+    compute: () => Promise<T>
+  ): Promise<T>;
+  stats(): Record<CacheKind, CacheStats>;
+}
+
+interface CacheEntry<T> {
+  createdAt: number;
+  key: unknown;
+  value: T;
+}
+
+export async function hashKey(key: unknown): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(key));
+  return getStringFromBuffer(await webcrypto.subtle.digest('SHA-256', data));
+}
+
+export function createCache({
+  dir,
+  enabled,
+  refresh,
+  ttl,
+}: CacheOptions): Cache {
+  const stats = Object.fromEntries(
+    cacheKinds.map((kind) => [
+      kind,
+      { hits: 0, misses: 0, writes: 0, failures: 0 },
+    ])
+  ) as Record<CacheKind, CacheStats>;
+
+  // Content-addressed, fanned out by the first two hex chars so no single
+  // directory grows too large
+  const entryPath = (kind: CacheKind, hash: string) =>
+    path.join(dir, kind, hash.slice(0, 2), `${hash}.json`);
+
+  async function read<T>(kind: CacheKind, hash: string) {
+    try {
+      const raw = await fs.readFile(entryPath(kind, hash), 'utf-8');
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      const age = (Date.now() - entry.createdAt) / 1000;
+      return age <= ttl[kind] ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async function write<T>(
+    kind: CacheKind,
+    hash: string,
+    entry: CacheEntry<T>
+  ) {
+    const filePath = entryPath(kind, hash);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(entry), 'utf-8');
+      stats[kind].writes++;
+    } catch {
+      // A cache that can't be written shouldn't fail the run, it shows up
+      // in the stats instead
+      stats[kind].failures++;
+    }
+  }
+
+  return {
+    async wrap<T>(
+      kind: CacheKind,
+      key: unknown,
+      compute: () => Promise<T>
+    ) {
+      if (!enabled) return compute();
+
+      const hash = await hashKey(key);
+      if (!refresh) {
+        const entry = await read<T>(kind, hash);
+        if (entry) {
+          stats[kind].hits++;
+          return entry.value;
+        }
+      }
+
+      stats[kind].misses++;
+      const value = await compute();
+      await write(kind, hash, { createdAt: Date.now(), key, value });
+      return value;
+    },
+    stats() {
+      return stats;
+    },
+  };
+}
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+/** A model response as it's stored, without the raw HTTP response */
+export type StoredResult = Omit<GenerateResult, 'rawResponse'>;
+
+export interface ModelCallKey {
+  provider: string;
+  modelId: string;
+  settings: Omit<LanguageModelV1CallOptions, 'abortSignal' | 'headers'>;
+}
+
+/** Identifies a model call by provider, model and the full prompt and settings */
+export function modelCallKey(
+  params: LanguageModelV1CallOptions,
+  model: LanguageModelV1
+): ModelCallKey {
+  // Signals and headers don't affect the response
+  const { abortSignal, headers, ...settings } = params;
+  return { provider: model.provider, modelId: model.modelId, settings };
+}
+
+// The raw HTTP response holds nothing worth replaying
+export const toStoredResult = ({
+  rawResponse,
+  ...rest
+}: GenerateResult): StoredResult => rest;
+
+/** Turns a stored response back into one, dates come back as strings */
+export function fromStoredResult(result: StoredResult): StoredResult {
+  return result.response?.timestamp
+    ? {
+        ...result,
+        response: {
+          ...result.response,
+          timestamp: new Date(result.response.timestamp),
+        },
+      }
+    : result;
+}
+
+/**
+ * Caches model responses keyed by provider, model and the full prompt and
+ * settings, so re-running a topic only pays for calls whose prompt changed.
+ */
+export function cacheMiddleware(
+  cache: Cache
+): Experimental_LanguageModelV1Middleware {
+  return {
+    async wrapGenerate({ doGenerate, params, model }) {
+      const result = await cache.wrap(
+        'llm',
+        modelCallKey(params, model),
+        async () => toStoredResult(await doGenerate())
+      );
+      return fromStoredResult(result);
+    },
+  };
+}
@@ -0,0 +1,311 @@
+import { EmbeddingModel, Experimental_LanguageModelV1Middleware } from 'ai';
+import { format } from 'date-fns/format';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  StoredResult,
+  fromStoredResult,
+  hashKey,
+  modelCallKey,
+  toStoredResult,
+} from './cache.js';
+import { SearchProvider } from './types.js';
+import { Fetcher } from './web/fetcher.js';
+import { UsageError } from './errors.js';
+
+export const cassetteModes = ['record', 'replay'] as const;
+export type CassetteMode = (typeof cassetteModes)[number];
+
+export const cassetteKinds = ['llm', 'embedding', 'search', 'fetch'] as const;
+export type CassetteKind = (typeof cassetteKinds)[number];
+
+// Bump when what's recorded changes shape, so old cassettes are re-recorded
+// instead of replaying into a confusing failure
+const CASSETTE_VERSION = 1;
+const INFO_FILE = 'cassette.json';
+// The rendered post, which replays are compared with
+const POST_FILE = 'post.md';
+
+/**
+ * Every model call, search and page fetch of a run, saved so the run can be
+ * repeated offline. Recording starts the cassette afresh; replaying never
+ * touches the network and throws on any request that wasn't recorded.
+ */
+export interface Cassette {
+  mode: CassetteMode;
+  dir: string;
+  /** When the recording started. Replays run at this time too */
+  recordedAt: Date;
+  /**
+   * The time zone the recording ran in, which dates in prompts were
+   * formatted in. Replays must run in it to match. Unknown for recordings
+   * made before it was saved.
+   */
+  timeZone?: string;
+  /**
+   * Records what `compute` returns or throws under `key`, or replays it.
+   * Values must survive a JSON round trip.
+   */
+  play<T>(
+    kind: CassetteKind,
+    key: unknown,
+    compute: () => Promise<T>
+  ): Promise<T>;
+}
+
+interface CassetteEntry<T> {
+  key: unknown;
+  value?: T;
+  /** Failures are replayed too, so a page that 404'd still does */
+  error?: string;
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    readonly kind: CassetteKind,
+    readonly key: unknown,
+    dir: string
+  ) {
+    const request = JSON.stringify(key);
+    super(
+      `No recorded ${kind} call in ${dir} matches ${
+        request.length > 200 ? `${request.slice(0, 200)}...` : request
+      }. Record the run again if this change is expected`
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+export interface CassetteOptions {
+  /**
+   * When a recording runs, now unless given. A fixed time keeps recording
+   * a scripted run again from changing every dated entry
+   */
+  recordedAt?: Date;
+}
+
+export async function openCassette(
+  dir: string,
+  mode: CassetteMode,
+  options: CassetteOptions = {}
+): Promise<Cassette> {
+  const infoPath = path.join(dir, INFO_FILE);
+  let recordedAt: Date;
+  let timeZone: string | undefined;
+
+  if (mode === 'record') {
+    // Entries from an earlier recording would go stale unnoticed
+    await Promise.all(
+      cassetteKinds.map((kind) =>
+        fs.rm(path.join(dir, kind), { recursive: true, force: true })
+      )
+    );
+    recordedAt = options.recordedAt || new Date();
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      infoPath,
+      JSON.stringify(
+        {
+          version: CASSETTE_VERSION,
+          recordedAt: recordedAt.toISOString(),
+          timeZone,
+        },
+        null,
+        2
+      ),
+      'utf-8'
+    );
+  } else {
+    let info: { version?: number; recordedAt?: string; timeZone?: string };
+    try {
+      info = JSON.parse(await fs.readFile(infoPath, 'utf-8'));
+    } catch (error) {
+      throw new UsageError(`${dir} is not a recorded cassette: ${error}`);
+    }
+    if (info.version !== CASSETTE_VERSION || !info.recordedAt) {
+      throw new UsageError(
+        `${dir} was recorded by another version, record it again`
+      );
+    }
+    recordedAt = new Date(info.recordedAt);
+    timeZone = info.timeZone;
+  }
+
+  const entryPath = (kind: CassetteKind, hash: string) =>
+    path.join(dir, kind, `${hash}.json`);
+
+  async function save<T>(filePath: string, entry: CassetteEntry<T>) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(entry, null, 2), 'utf-8');
+  }
+
+  return {
+    mode,
+    dir,
+    recordedAt,
+    timeZone,
+    async play<T>(kind: CassetteKind, key: unknown, compute: () => Promise<T>) {
+      const filePath = entryPath(kind, await hashKey(key));
+
+      if (mode === 'replay') {
+        let entry: CassetteEntry<T>;
+        try {
+          entry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        } catch {
+          throw new CassetteMissError(kind, key, dir);
+        }
+        if (entry.error !== undefined) throw new Error(entry.error);
+        return entry.value as T;
+      }
+
+      let value: T;
+      try {
+        value = await compute();
+      } catch (error) {
+        // An interrupted recording shouldn't replay as a failure
+        if (!(error instanceof Error && error.name === 'AbortError')) {
+          await save(filePath, {
+            key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        throw error;
+      }
+      await save(filePath, { key, value });
+      return value;
+    },
+  };
+}
+
+/** Records or replays model calls, keyed like the cache */
+export function cassetteMiddleware(
+  cassette: Cassette
+): Experimental_LanguageModelV1Middleware {
+  return {
+    async wrapGenerate({ doGenerate, params, model }) {
+      const result = await cassette.play<StoredResult>(
+        'llm',
+        modelCallKey(params, model),
+        async () => toStoredResult(await doGenerate())
+      );
+      return fromStoredResult(result);
+    },
+  };
+}
+
+/** There's no embedding middleware, so this wraps the model by hand */
+export function recordEmbeddingModel(
+  model: EmbeddingModel<string>,
+  cassette: Cassette
+): EmbeddingModel<string> {
+  return {
+    specificationVersion: 'v1',
+    provider: model.provider,
+    modelId: model.modelId,
+    maxEmbeddingsPerCall: model.maxEmbeddingsPerCall,
+    supportsParallelCalls: model.supportsParallelCalls,
+    doEmbed: ({ values, abortSignal, headers }) =>
+      cassette.play(
+        'embedding',
+        { provider: model.provider, modelId: model.modelId, values },
+        async () => {
+          const { embeddings, usage } = await model.doEmbed({
+            values,
+            abortSignal,
+            headers,
+          });
+          return { embeddings, usage };
+        }
+      ),
+  };
+}
+
+export function recordSearchProvider(
+  provider: SearchProvider,
+  cassette: Cassette
+): SearchProvider {
+  return {
+    name: provider.name,
+    search: (query, options = {}) =>
+      cassette.play(
+        'search',
+        {
+          provider: provider.name,
+          query,
+          num: options.num,
+          ...(options.since && { since: format(options.since, 'yyyy-MM-dd') }),
+        },
+        () => provider.search(query, options)
+      ),
+  };
+}
+
+/**
+ * Stands in for the configured provider when replaying, which never
+ * searches, so its credentials aren't needed
+ */
+export function replayOnlySearchProvider(name: string): SearchProvider {
+  return {
+    name,
+    search: () =>
+      Promise.reject(new Error(`${name} can't search while replaying`)),
+  };
+}
+
+/** Robots.txt checks happen inside the fetcher, so replays skip them too */
+export function recordFetcher(fetcher: Fetcher, cassette: Cassette): Fetcher {
+  return {
+    async fetch(url) {
+      const { body, ...response } = await cassette.play(
+        'fetch',
+        { url },
+        async () => {
+          const fetched = await fetcher.fetch(url);
+          // Base64, so binary bodies like PDFs survive the JSON
+          return { ...fetched, body: fetched.body.toString('base64') };
+        }
+      );
+      return { ...response, body: Buffer.from(body, 'base64') };
+    },
+  };
+}
+
+/**
+ * Compares a replayed post with the one saved when recording. Returns a
+ * description of the first difference, or null when they match.
+ */
+export function diffRecording(expected: string, actual: string) {
+  if (expected === actual) return null;
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  const line = expectedLines.findIndex((text, i) => text !== actualLines[i]);
+  const at = line === -1 ? expectedLines.length : line;
+  return [
+    `first difference at line ${at + 1}:`,
+    `- ${expectedLines[at] ?? '(end of file)'}`,
+    `+ ${actualLines[at] ?? '(end of file)'}`,
+  ].join('\n');
+}
+
+/**
+ * Saves the rendered markdown post with a recording, or compares a
+ * replayed one with it. Returns where a replay first differs, or null.
+ */
+export async function checkRecording(
+  cassette: Cassette,
+  markdown: string
+): Promise<string | null> {
+  const postPath = path.join(cassette.dir, POST_FILE);
+  if (cassette.mode === 'record') {
+    await fs.writeFile(postPath, markdown, 'utf-8');
+    return null;
+  }
+  let recorded: string;
+  try {
+    recorded = await fs.readFile(postPath, 'utf-8');
+  } catch {
+    throw new UsageError(`${cassette.dir} has no recorded post to compare with`);
+  }
+  return diffRecording(recorded, markdown);
+}
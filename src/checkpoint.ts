@@ -0,0 +1,181 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { blogPostSchema, outlineSchema } from './schemas.js';
+import { UsageError } from './errors.js';
+
+// Bump when a checkpoint's shape changes so stale runs are recomputed
+// instead of failing halfway through
+const CHECKPOINT_VERSION = 2;
+
+export const pipelinePhases = [
+  'queries',
+  'sources',
+  'outline',
+  'sections',
+  'summary',
+  'polish',
+  'final',
+  'verify',
+] as const;
+
+export type PipelinePhase = (typeof pipelinePhases)[number];
+
+const webContentSchema = z.object({
+  id: z.string().optional(),
+  url: z.string(),
+  content: z.string(),
+  title: z.string().optional(),
+  hostname: z.string().optional(),
+  canonicalUrl: z.string().optional(),
+  alternateUrls: z.array(z.string()).optional(),
+  author: z.string().optional(),
+  siteName: z.string().optional(),
+  publishedAt: z.string().optional(),
+  accessedAt: z.string().optional(),
+  description: z.string().optional(),
+});
+
+const sectionDraftSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  sources: z.array(z.string()),
+});
+
+const verifiedClaimSchema = z.object({
+  block: z.number(),
+  claim: z.string(),
+  quote: z.string(),
+  verdict: z.enum(['supported', 'unsupported', 'contradicted']),
+  explanation: z.string(),
+  evidence: z.array(z.string()),
+});
+
+const checkpointSchemas = {
+  queries: z.array(z.string()),
+  sources: z.array(webContentSchema),
+  outline: outlineSchema,
+  sections: z.array(sectionDraftSchema),
+  summary: z.object({ summary: z.string(), conclusion: z.string() }),
+  polish: z.object({
+    improvedParts: z.array(blogPostSchema),
+    improved: blogPostSchema,
+  }),
+  final: blogPostSchema,
+  verify: z.object({
+    post: blogPostSchema,
+    report: z.object({
+      mode: z.enum(['mark', 'soften', 'remove', 'off']),
+      claims: z.array(verifiedClaimSchema),
+    }),
+  }),
+} satisfies Record<PipelinePhase, z.ZodTypeAny>;
+
+export type CheckpointData<P extends PipelinePhase> = z.infer<
+  (typeof checkpointSchemas)[P]
+>;
+
+const runInfoSchema = z.object({
+  topic: z.string(),
+  createdAt: z.string(),
+});
+
+export type RunInfo = z.infer<typeof runInfoSchema>;
+
+export interface CheckpointStore {
+  /**
+   * Returns the saved result of `phase` if there is a usable one, otherwise
+   * runs `compute` and saves its result. Once a phase is recomputed every
+   * later phase is too, since its inputs changed.
+   */
+  run<P extends PipelinePhase>(
+    phase: P,
+    compute: () => Promise<CheckpointData<P>>
+  ): Promise<CheckpointData<P>>;
+}
+
+export interface CheckpointOptions {
+  /** Reuse checkpoints from an earlier run of this directory */
+  resume?: boolean;
+  /** Recompute this phase and everything after it */
+  fromPhase?: PipelinePhase;
+  onResume?: (phase: PipelinePhase) => void;
+}
+
+function checkpointPath(runDir: string, phase: PipelinePhase) {
+  const index = pipelinePhases.indexOf(phase) + 1;
+  return path.join(runDir, 'checkpoints', `${index}-${phase}.json`);
+}
+
+// Written beside the file and renamed over it, so a run interrupted
+// mid-write leaves the old file or the new one, never half of one
+async function writeJson(filePath: string, data: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+export async function writeRunInfo(runDir: string, info: RunInfo) {
+  await writeJson(path.join(runDir, 'run.json'), info);
+}
+
+export async function readRunInfo(runDir: string): Promise<RunInfo> {
+  try {
+    const raw = await fs.readFile(path.join(runDir, 'run.json'), 'utf-8');
+    return runInfoSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    throw new UsageError(`${runDir} is not a resumable run: ${error}`);
+  }
+}
+
+/** The saved result of `phase`, or null if it's missing or out of date */
+export async function loadCheckpoint<P extends PipelinePhase>(
+  runDir: string,
+  phase: P
+): Promise<CheckpointData<P> | null> {
+  let file: { version?: number; data?: unknown };
+  try {
+    const raw = await fs.readFile(checkpointPath(runDir, phase), 'utf-8');
+    file = JSON.parse(raw);
+  } catch {
+    // Missing, or cut short by a crash, either way it's recomputed
+    return null;
+  }
+  if (file.version !== CHECKPOINT_VERSION) return null;
+
+  const parsed = checkpointSchemas[phase].safeParse(file.data);
+  return parsed.success ? (parsed.data as CheckpointData<P>) : null;
+}
+
+export function createCheckpointStore(
+  runDir: string,
+  { resume = false, fromPhase, onResume }: CheckpointOptions = {}
+): CheckpointStore {
+  const forcedFrom = fromPhase
+    ? pipelinePhases.indexOf(fromPhase)
+    : pipelinePhases.length;
+  let invalidated = !resume;
+
+  return {
+    async run(phase, compute) {
+      if (!invalidated && pipelinePhases.indexOf(phase) < forcedFrom) {
+        const saved = await loadCheckpoint(runDir, phase);
+        if (saved) {
+          onResume?.(phase);
+          return saved;
+        }
+      }
+      invalidated = true;
+
+      const data = await compute();
+      await writeJson(checkpointPath(runDir, phase), {
+        version: CHECKPOINT_VERSION,
+        phase,
+        savedAt: new Date().toISOString(),
+        data,
+      });
+      return data;
+    },
+  };
+}
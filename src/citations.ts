@@ -0,0 +1,225 @@
+import { BlogPost } from './schemas.js';
+import { WebContent } from './types.js';
+import { describeAge } from './utils/dates.js';
+import { canonicalizeUrl } from './web/canonical.js';
+
+// Matches [S3] as well as grouped markers like [S1, S4]
+const MARKER_PATTERN = /\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+
+export type Reference = BlogPost['references'][number];
+
+export interface CitationReport {
+  /** IDs the model cited that don't belong to any source */
+  unknownIds: string[];
+  /** Citations dropped because neither their ID nor URL matched a source */
+  droppedCitations: number;
+}
+
+/**
+ * Gives every source a stable ID (S1, S2, ...) in collection order. The
+ * writer cites these IDs, so they must not change once assigned.
+ */
+export function assignSourceIds(contents: WebContent[]): WebContent[] {
+  return contents.map((content, i) => ({ ...content, id: `S${i + 1}` }));
+}
+
+export function sourceHostname(content: WebContent) {
+  return content.hostname || new URL(content.url).hostname;
+}
+
+/**
+ * Lists the citable sources for a prompt, one per line, with how old each
+ * one is so the model can prefer fresh information
+ */
+export function formatSourceList(contents: WebContent[], now = new Date()) {
+  return contents
+    .filter((content) => content.id && content.content)
+    .map(
+      (content) =>
+        `[${content.id}] ${content.title || sourceHostname(content)} (${
+          content.url
+        }, ${describeAge(content.publishedAt, now)})`
+    )
+    .join('\n');
+}
+
+// Excerpts are cut at a sentence end within this many characters
+const EXCERPT_LENGTH = 240;
+
+/** The page's own description, or its opening sentences without markdown */
+function excerpt(content: WebContent) {
+  const text = (content.description || content.content)
+    .replace(/^#+\s.*$/gm, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= EXCERPT_LENGTH) return text || undefined;
+  const cut = text.slice(0, EXCERPT_LENGTH);
+  const end = cut.lastIndexOf('. ');
+  return end > EXCERPT_LENGTH / 3 ? cut.slice(0, end + 1) : `${cut.trim()}…`;
+}
+
+function toReference(content: WebContent): Reference {
+  return {
+    url: content.url,
+    title: content.title || sourceHostname(content),
+    site: sourceHostname(content),
+    author: content.author,
+    publisher: content.siteName,
+    published: content.publishedAt,
+    accessed: content.accessedAt,
+    excerpt: excerpt(content),
+  };
+}
+
+/**
+ * Validates every citation in the post against the collected sources and
+ * rewrites `[S3]` markers into footnotes whose numbers match the returned
+ * reference list. Unknown IDs are removed rather than rendered.
+ */
+export function resolveCitations(
+  post: BlogPost,
+  contents: WebContent[]
+): { post: BlogPost; report: CitationReport } {
+  const byId = new Map(
+    contents
+      .filter((content) => content.id)
+      .map((content) => [content.id!, content])
+  );
+  // Models cite whichever URL of a page they saw, and rarely in the
+  // exact form it was collected
+  const byUrl = new Map(
+    contents.flatMap((content) =>
+      [content.url, ...(content.alternateUrls || [])].map(
+        (url) => [canonicalizeUrl(url), content] as const
+      )
+    )
+  );
+
+  const unknownIds = new Set<string>();
+  let droppedCitations = 0;
+
+  // Reference order follows first citation in the text
+  const cited: WebContent[] = [];
+  const footnoteFor = (content: WebContent) => {
+    let index = cited.indexOf(content);
+    if (index === -1) index = cited.push(content) - 1;
+    return `[^${index + 1}]`;
+  };
+
+  const rewriteMarkers = (text: string) =>
+    text.replace(MARKER_PATTERN, (_, ids: string) =>
+      ids
+        .split(/\s*,\s*/)
+        .map((id) => {
+          const content = byId.get(id);
+          if (!content) {
+            unknownIds.add(id);
+            return '';
+          }
+          return footnoteFor(content);
+        })
+        .join('')
+    );
+
+  const stripMarkers = (text: string) =>
+    text.replace(MARKER_PATTERN, '').replace(/\s+([.,;:!?])/g, '$1').trim();
+
+  const summary = rewriteMarkers(post.summary);
+  const content = post.content.map((block) => {
+    if (block.type === 'heading') {
+      return { ...block, text: stripMarkers(block.text) };
+    }
+
+    const text = rewriteMarkers(block.text);
+    const citations = (block.citations || []).flatMap((citation) => {
+      const source =
+        byId.get(citation.source_id) ||
+        byUrl.get(canonicalizeUrl(citation.url));
+      if (!source) {
+        droppedCitations++;
+        if (citation.source_id) unknownIds.add(citation.source_id);
+        return [];
+      }
+      // Registers the source so the reference list includes it
+      footnoteFor(source);
+      return [{ ...citation, source_id: source.id!, url: source.url }];
+    });
+
+    return { ...block, text, citations };
+  });
+
+  // Nothing cited at all: still list what the post was researched from
+  const references = (
+    cited.length ? cited : contents.filter((c) => c.content)
+  ).map(toReference);
+
+  return {
+    post: {
+      ...post,
+      title: stripMarkers(post.title),
+      subtitle: stripMarkers(post.subtitle),
+      summary,
+      content,
+      references,
+    },
+    report: { unknownIds: Array.from(unknownIds), droppedCitations },
+  };
+}
+
+const FOOTNOTE_PATTERN = /\[\^(\d+)\]/g;
+
+/**
+ * Drops citations whose claim is no longer in the text of an edited block,
+ * and references nothing points at any more, renumbering the footnotes to
+ * match. `original` is the post before the edits: blocks whose text it
+ * still matches keep their citations, since those are often paraphrased.
+ */
+export function pruneReferences(post: BlogPost, original: BlogPost): BlogPost {
+  const content = post.content.map((block, i) =>
+    block.citations && block.text !== original.content[i]?.text
+      ? {
+          ...block,
+          citations: block.citations.filter((citation) =>
+            block.text.includes(citation.text)
+          ),
+        }
+      : block
+  );
+
+  const used = new Set<number>();
+  for (const text of [post.summary, ...content.map((block) => block.text)]) {
+    for (const [, number] of text.matchAll(FOOTNOTE_PATTERN)) {
+      used.add(Number(number) - 1);
+    }
+  }
+  for (const block of content) {
+    for (const citation of block.citations || []) {
+      const index = post.references.findIndex(
+        (ref) => ref.url === citation.url
+      );
+      if (index !== -1) used.add(index);
+    }
+  }
+  // An uncited post lists what it was researched from, keep that
+  if (!used.size) return { ...post, content };
+
+  const kept = post.references
+    .map((reference, index) => ({ reference, index }))
+    .filter(({ index }) => used.has(index));
+  const renumber = (text: string) =>
+    text.replace(FOOTNOTE_PATTERN, (marker, number: string) => {
+      const index = kept.findIndex(
+        (entry) => entry.index === Number(number) - 1
+      );
+      return index === -1 ? marker : `[^${index + 1}]`;
+    });
+
+  return {
+    ...post,
+    summary: renumber(post.summary),
+    content: content.map((block) => ({ ...block, text: renumber(block.text) })),
+    references: kept.map(({ reference }) => reference),
+  };
+}
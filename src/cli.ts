@@ -0,0 +1,833 @@
+import 'dotenv/config';
+import fs from 'fs/promises';
+import kleur from 'kleur';
+import path from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { defaultRunDir, research } from './research.js';
+import { BlogPost } from './schemas.js';
+import { ThreadInput, generateThread } from './thread.js';
+import { parseDate, recencies } from './utils/dates.js';
+import { writeThread } from './utils/thread.js';
+import {
+  Config,
+  DEFAULT_CONFIG_FILE,
+  loadConfig,
+  modelPhases,
+  modelSpecSchema,
+  searchProviderNames,
+} from './config.js';
+import {
+  BibliographyFormat,
+  bibliographyFiles,
+  bibliographyFormats,
+  formatBibliography,
+} from './bibliography.js';
+import { Cache, createCache } from './cache.js';
+import {
+  Cassette,
+  CassetteMissError,
+  checkRecording,
+  openCassette,
+} from './cassette.js';
+import { UsageError } from './errors.js';
+import {
+  PostFormat,
+  postFormats,
+  postRenderers,
+  renderPost,
+  writePostFormat,
+} from './post/formats.js';
+import { renderOptions } from './post/options.js';
+import { loadCheckpoint, pipelinePhases, readRunInfo } from './checkpoint.js';
+import { EventSink, trackPhase } from './events.js';
+import { ModelRegistry, createModelRegistry } from './models.js';
+import {
+  PromptRegistry,
+  createPromptRegistry,
+  loadPromptOverrides,
+  writePromptManifest,
+} from './prompts/registry.js';
+import {
+  resolveProfile,
+  resolveWritingProfile,
+  researchProfiles,
+  writingProfiles,
+} from './profiles.js';
+import {
+  BudgetExceededError,
+  UsageTracker,
+  createUsageTracker,
+  writeUsageReport,
+} from './usage.js';
+import { createSearchProvider } from './web/search.js';
+import {
+  createPrettyRenderer,
+  printOutline,
+  printSources,
+} from './renderers/pretty.js';
+import { createProgressRenderer } from './renderers/progress.js';
+import { createQuietRenderer } from './renderers/quiet.js';
+import { createJsonRenderer } from './renderers/json.js';
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+// Bad arguments, a bad config or a run that can't be resumed
+const EXIT_USAGE = 2;
+const EXIT_BUDGET = 3;
+const EXIT_INTERRUPTED = 130;
+
+const PROGRAM = 'pnpm deep';
+
+function errorMessage(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => issue.message).join(', ');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Expected errors say what's wrong, so only the others get a stack trace,
+ * unless DEBUG is set
+ */
+function describeError(error: unknown) {
+  const expected =
+    error instanceof UsageError ||
+    error instanceof CassetteMissError ||
+    error instanceof z.ZodError;
+  if (error instanceof Error && (!expected || process.env.DEBUG)) {
+    return String(error.stack);
+  }
+  return errorMessage(error);
+}
+
+const commandNames = [
+  'research',
+  'write',
+  'outline',
+  'sources',
+  'render',
+  'thread',
+] as const;
+type Command = (typeof commandNames)[number];
+
+interface PostOutputs {
+  formats: PostFormat[];
+  bibliography: BibliographyFormat[];
+}
+
+const options = {
+  'out-dir': { type: 'string' },
+  resume: { type: 'string' },
+  'from-phase': { type: 'string' },
+  queries: { type: 'string' },
+  profile: { type: 'string' },
+  'auto-angles': { type: 'boolean' },
+  results: { type: 'string' },
+  'max-sources': { type: 'string' },
+  since: { type: 'string' },
+  recency: { type: 'string' },
+  depth: { type: 'string' },
+  breadth: { type: 'string' },
+  provider: { type: 'string' },
+  model: { type: 'string', multiple: true },
+  language: { type: 'string' },
+  audience: { type: 'string' },
+  format: { type: 'string' },
+  bibliography: { type: 'string' },
+  config: { type: 'string' },
+  budget: { type: 'string' },
+  record: { type: 'string' },
+  replay: { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  refresh: { type: 'boolean' },
+  quiet: { type: 'boolean', short: 'q' },
+  progress: { type: 'boolean' },
+  'json-events': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+type OptionName = keyof typeof options;
+
+const OPTION_HELP: Record<OptionName, [string, string]> = {
+  'out-dir': [
+    '--out-dir <dir>',
+    'Directory runs are saved in (default: output)',
+  ],
+  resume: [
+    '--resume <run>',
+    'Continue a run, by name or path, instead of a topic',
+  ],
+  'from-phase': [
+    '--from-phase <phase>',
+    `With --resume, redo this phase and the rest: ${pipelinePhases.join(', ')}`,
+  ],
+  queries: [
+    '--queries <n>',
+    "First-round queries, up to the profile's angles without --auto-angles",
+  ],
+  profile: [
+    '--profile <name>',
+    `Research profile: ${Object.keys(researchProfiles).join(', ')}`,
+  ],
+  'auto-angles': ['--auto-angles', 'Let the model pick the angles to research'],
+  results: ['--results <n>', 'Search results per query'],
+  'max-sources': ['--max-sources <n>', 'Fetch at most this many sources'],
+  since: ['--since <date>', 'Only use material published since YYYY-MM-DD'],
+  recency: [
+    '--recency <span>',
+    `Only use material from the last ${recencies.join(', ')}`,
+  ],
+  depth: ['--depth <n>', 'Rounds of searching, 1 to 5'],
+  breadth: ['--breadth <n>', 'Follow-up queries per round, 1 to 6'],
+  provider: [
+    '--provider <name>',
+    `Search provider: ${searchProviderNames.join(', ')}`,
+  ],
+  model: [
+    '--model <[phase=]spec>',
+    'Model for every phase, or for one (outline=ollama:llama3.1), repeatable',
+  ],
+  language: ['--language <name>', 'Language to write in (default: English)'],
+  audience: [
+    '--audience <name>',
+    `Writing profile: ${Object.keys(writingProfiles).join(', ')}`,
+  ],
+  format: [
+    '--format <list>',
+    `Post formats to write: ${postFormats.join(', ')} (default: md)`,
+  ],
+  bibliography: [
+    '--bibliography <list>',
+    `Also write the references as: ${bibliographyFormats.join(', ')}`,
+  ],
+  config: ['--config <path>', `Config file (default: ${DEFAULT_CONFIG_FILE})`],
+  budget: ['--budget <dollars>', 'Stop before spending more than this'],
+  record: [
+    '--record <dir>',
+    'Save every search, fetch and model call of the run',
+  ],
+  replay: [
+    '--replay <dir>',
+    'Rerun a recording offline and compare the post with it',
+  ],
+  'no-cache': ['--no-cache', 'Bypass the cache entirely'],
+  refresh: ['--refresh', 'Ignore cached entries but write fresh ones'],
+  quiet: ['-q, --quiet', 'Only print warnings and errors'],
+  progress: ['--progress', 'One line per phase and progress bars'],
+  'json-events': ['--json-events', 'One JSON event per line, for CI logs'],
+  help: ['-h, --help', 'Show this help'],
+};
+
+const RESEARCH_OPTIONS: OptionName[] = [
+  'resume',
+  'from-phase',
+  'profile',
+  'auto-angles',
+  'queries',
+  'results',
+  'max-sources',
+  'since',
+  'recency',
+  'depth',
+  'breadth',
+  'provider',
+  'model',
+  'budget',
+  'record',
+  'replay',
+];
+
+const COMMANDS: Record<
+  Command,
+  { args: string; description: string; options: OptionName[] }
+> = {
+  research: {
+    args: '<topic>',
+    description: 'Research a topic, then write the post and a thread',
+    options: [
+      ...RESEARCH_OPTIONS,
+      'language',
+      'audience',
+      'format',
+      'bibliography',
+    ],
+  },
+  write: {
+    args: '<topic>',
+    description: 'Research a topic and write the post',
+    options: [
+      ...RESEARCH_OPTIONS,
+      'language',
+      'audience',
+      'format',
+      'bibliography',
+    ],
+  },
+  outline: {
+    args: '<topic>',
+    description: 'Research a topic and stop once the outline is done',
+    options: [...RESEARCH_OPTIONS, 'language', 'audience'],
+  },
+  sources: {
+    args: '<topic>',
+    description: 'Search and fetch sources without writing anything',
+    options: RESEARCH_OPTIONS,
+  },
+  render: {
+    args: '<run>',
+    description: "Write a finished run's post again, without any model calls",
+    options: ['format', 'bibliography'],
+  },
+  thread: {
+    args: '<run>',
+    description:
+      "Write a thread from a run's post, or its outline if there's no post",
+    options: ['model', 'language', 'budget'],
+  },
+};
+
+const COMMON_OPTIONS: OptionName[] = [
+  'out-dir',
+  'config',
+  'no-cache',
+  'refresh',
+  'quiet',
+  'progress',
+  'json-events',
+  'help',
+];
+
+function formatHelp(command?: Command) {
+  const rows = (names: OptionName[]) =>
+    names.map(
+      (name) => `  ${OPTION_HELP[name][0].padEnd(24)}${OPTION_HELP[name][1]}`
+    );
+
+  if (!command) {
+    return [
+      `Usage: ${PROGRAM} <command> [options]`,
+      '',
+      'Commands:',
+      ...commandNames.map(
+        (name) =>
+          `  ${`${name} ${COMMANDS[name].args}`.padEnd(24)}${
+            COMMANDS[name].description
+          }`
+      ),
+      '',
+      'Options:',
+      ...rows(COMMON_OPTIONS),
+      '',
+      `Run ${PROGRAM} <command> --help for the options of each command.`,
+    ].join('\n');
+  }
+
+  const { args, description, options } = COMMANDS[command];
+  return [
+    `Usage: ${PROGRAM} ${command} ${args} [options]`,
+    '',
+    description,
+    '',
+    'Options:',
+    ...rows([...options, ...COMMON_OPTIONS]),
+  ].join('\n');
+}
+
+function parseCommandLine(args: string[]) {
+  return parseArgs({ args, options, allowPositionals: true });
+}
+
+type Flags = ReturnType<typeof parseCommandLine>['values'];
+
+function createRenderer(flags: Flags): EventSink {
+  const modes = ['quiet', 'progress', 'json-events'] as const;
+  const chosen = modes.filter((mode) => flags[mode]);
+  if (chosen.length > 1) {
+    throw new Error(`Pick one of ${chosen.map((m) => `--${m}`).join(', ')}`);
+  }
+  if (flags.quiet) return createQuietRenderer();
+  if (flags['json-events']) return createJsonRenderer();
+  if (flags.progress) return createProgressRenderer();
+  return createPrettyRenderer();
+}
+
+function parseCount(flag: string, value: string, max = Infinity) {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > max) {
+    throw new Error(
+      max === Infinity
+        ? `${flag} must be a whole number above 0`
+        : `${flag} must be a whole number from 1 to ${max}`
+    );
+  }
+  return count;
+}
+
+function parseFormats<T extends string>(
+  value: string,
+  choices: readonly T[]
+): T[] {
+  const formats = value.split(',').map((format) => format.trim());
+  for (const format of formats) {
+    if (!choices.includes(format as T)) {
+      throw new Error(
+        `Unknown format "${format}", pick from ${choices.join(', ')}`
+      );
+    }
+  }
+  return formats as T[];
+}
+
+/** `--format` and `--bibliography` */
+function parseOutputs(flags: Flags): PostOutputs {
+  return {
+    formats: parseFormats(flags.format || 'md', postFormats),
+    bibliography: flags.bibliography
+      ? parseFormats(flags.bibliography, bibliographyFormats)
+      : [],
+  };
+}
+
+const modelTargets = ['default', 'embedding', ...modelPhases] as const;
+
+/** Command-line flags win over the config file */
+function applyFlags(config: Config, flags: Flags): Config {
+  if (flags.provider) {
+    config.search.provider = z.enum(searchProviderNames).parse(flags.provider);
+  }
+  if (flags.queries) {
+    config.search.queries = parseCount('--queries', flags.queries, 10);
+  }
+  if (flags.profile) {
+    config.research.profile = flags.profile;
+  }
+  if (flags['auto-angles']) {
+    config.research.autoAngles = true;
+  }
+  if (flags.results) {
+    config.search.resultsPerQuery = parseCount('--results', flags.results);
+  }
+  if (flags['max-sources']) {
+    config.search.maxSources = parseCount(
+      '--max-sources',
+      flags['max-sources']
+    );
+  }
+  if (flags.since) {
+    if (!parseDate(flags.since)) {
+      throw new Error('--since must be a date like 2024-06-01');
+    }
+    config.search.since = flags.since;
+  }
+  if (flags.recency) {
+    config.search.recency = z.enum(recencies).parse(flags.recency);
+  }
+  if (flags.depth) {
+    config.research.depth = parseCount('--depth', flags.depth, 5);
+  }
+  if (flags.breadth) {
+    config.research.breadth = parseCount('--breadth', flags.breadth, 6);
+  }
+  for (const value of flags.model || []) {
+    const separator = value.indexOf('=');
+    const target = separator === -1 ? 'default' : value.slice(0, separator);
+    if (!modelTargets.includes(target as (typeof modelTargets)[number])) {
+      throw new Error(
+        `Unknown model phase "${target}", pick from ${modelTargets.join(', ')}`
+      );
+    }
+    config.models[target as (typeof modelTargets)[number]] =
+      modelSpecSchema.parse(value.slice(separator + 1));
+  }
+  if (flags.language) {
+    config.writing.language = flags.language;
+  }
+  if (flags.audience) {
+    config.writing.profile = flags.audience;
+  }
+  if (flags.budget) {
+    config.budget.limit = z.coerce
+      .number({ message: '--budget must be a dollar amount' })
+      .positive()
+      .parse(flags.budget);
+  }
+  // Fail before any work is done
+  resolveProfile(config.research);
+  resolveWritingProfile(config.writing);
+  return config;
+}
+
+// A run is either a directory path or the name of a directory in `outDir`
+async function resolveRunDir(run: string, outDir: string) {
+  try {
+    await readRunInfo(run);
+    return run;
+  } catch {
+    const runDir = path.join(outDir, run);
+    await readRunInfo(runDir);
+    return runDir;
+  }
+}
+
+interface Runtime {
+  models: ModelRegistry;
+  prompts: PromptRegistry;
+  cache: Cache;
+  usage: UsageTracker;
+  cassette?: Cassette;
+}
+
+async function createRuntime(
+  config: Config,
+  flags: Flags,
+  signal: AbortSignal
+): Promise<Runtime> {
+  if (flags.record && flags.replay) {
+    throw new Error('Pick one of --record, --replay');
+  }
+  const cassette = flags.record
+    ? await openCassette(flags.record, 'record')
+    : flags.replay
+      ? await openCassette(flags.replay, 'replay')
+      : undefined;
+  // Dates in prompts are formatted in local time, so a replay has to run
+  // in the recording's time zone to match it
+  if (cassette?.mode === 'replay' && cassette.timeZone) {
+    process.env.TZ = cassette.timeZone;
+  }
+  const cache = createCache({
+    ...config.cache,
+    // Every call goes through the cassette instead
+    enabled: config.cache.enabled && !flags['no-cache'] && !cassette,
+    refresh: Boolean(flags.refresh),
+  });
+  const usage = createUsageTracker(config.budget, config.pricing);
+  const models = createModelRegistry(config, {
+    cache,
+    usage,
+    signal,
+    cassette,
+  });
+  const prompts = createPromptRegistry(
+    await loadPromptOverrides(config.prompts.dir)
+  );
+  return { models, prompts, cache, usage, cassette };
+}
+
+async function writePost(
+  post: BlogPost,
+  topic: string,
+  runDir: string,
+  { formats, bibliography }: PostOutputs,
+  emit: EventSink
+) {
+  // Dated by when the run started, so rendering again gives the same files
+  const { createdAt } = await readRunInfo(runDir);
+  const options = renderOptions(post, { topic, date: new Date(createdAt) });
+  for (const format of formats) {
+    const postPath = await writePostFormat(post, format, runDir, options);
+    emit({
+      type: 'artifact:written',
+      name: `blog post (${postRenderers[format].description})`,
+      path: postPath,
+    });
+  }
+  for (const format of bibliography) {
+    const bibliographyPath = path.join(runDir, bibliographyFiles[format]);
+    await fs.mkdir(runDir, { recursive: true });
+    await fs.writeFile(
+      bibliographyPath,
+      `${formatBibliography(post.references, format)}\n`,
+      'utf-8'
+    );
+    emit({
+      type: 'artifact:written',
+      name: `bibliography (${format})`,
+      path: bibliographyPath,
+    });
+  }
+}
+
+// A recording keeps its post, and a replay that writes any other fails, so
+// a prompt or pipeline change shows up as a diff
+async function checkRecordedPost(
+  post: BlogPost,
+  topic: string,
+  runDir: string,
+  cassette: Cassette
+) {
+  const { createdAt } = await readRunInfo(runDir);
+  const options = renderOptions(post, { topic, date: new Date(createdAt) });
+  const difference = await checkRecording(
+    cassette,
+    renderPost(post, 'md', options)
+  );
+  if (difference) {
+    throw new Error(
+      `The replayed post differs from the one in ${cassette.dir}, ${difference}`
+    );
+  }
+}
+
+interface ThreadTarget {
+  topic: string;
+  runDir: string;
+  models: ModelRegistry;
+  prompts: PromptRegistry;
+  language: string;
+  emit: EventSink;
+}
+
+async function writeRunThread(
+  input: ThreadInput,
+  { topic, runDir, models, prompts, language, emit }: ThreadTarget
+) {
+  const thread = await trackPhase(emit, 'thread', () =>
+    generateThread(topic, input, models, { language, prompts })
+  );
+  // Alongside the prompts the rest of the run used
+  await writePromptManifest(runDir, prompts.used());
+  const { textPath } = await writeThread(
+    thread,
+    topic,
+    path.join(runDir, 'thread')
+  );
+  emit({
+    type: 'artifact:written',
+    name: `${thread.tweets.length}-tweet thread`,
+    path: textPath,
+  });
+}
+
+/** A command that's ready to go, every argument checked */
+interface Job {
+  runDir: string;
+  runtime?: Runtime;
+  /** Continues an existing run, so its usage adds to what's recorded */
+  continues?: boolean;
+  execute(): Promise<void>;
+}
+
+async function prepare(
+  command: Command,
+  target: string | undefined,
+  flags: Flags,
+  config: Config,
+  emit: EventSink,
+  signal: AbortSignal
+): Promise<Job> {
+  const outDir = flags['out-dir'] || 'output';
+  // Results go to the terminal unless something else is reading stdout
+  const print = !flags.quiet && !flags['json-events'];
+
+  if (command === 'render' || command === 'thread') {
+    if (!target) throw new Error(`${command} needs a run, by name or path`);
+    const runDir = await resolveRunDir(target, outDir);
+    const { topic } = await readRunInfo(runDir);
+
+    if (command === 'render') {
+      const outputs = parseOutputs(flags);
+      return {
+        runDir,
+        async execute() {
+          const verified = await loadCheckpoint(runDir, 'verify');
+          if (!verified) {
+            throw new UsageError(`${runDir} has no finished post to render`);
+          }
+          await writePost(verified.post, topic, runDir, outputs, emit);
+        },
+      };
+    }
+
+    const runtime = await createRuntime(config, flags, signal);
+    return {
+      runDir,
+      runtime,
+      continues: true,
+      async execute() {
+        const verified = await loadCheckpoint(runDir, 'verify');
+        const outline = await loadCheckpoint(runDir, 'outline');
+        const sources = await loadCheckpoint(runDir, 'sources');
+        let input: ThreadInput;
+        if (verified) {
+          input = { blogPost: verified.post };
+        } else if (outline && sources) {
+          input = { outline, sources };
+        } else {
+          throw new UsageError(
+            `${runDir} has no post or outline to work from`
+          );
+        }
+        await writeRunThread(input, {
+          topic,
+          runDir,
+          models: runtime.models,
+          prompts: runtime.prompts,
+          language: config.writing.language,
+          emit,
+        });
+      },
+    };
+  }
+
+  if (flags.resume && target) {
+    throw new Error('Pass either a topic or --resume, not both');
+  }
+  if (flags['from-phase'] && !flags.resume) {
+    throw new Error('--from-phase requires --resume');
+  }
+  const fromPhase = flags['from-phase']
+    ? z.enum(pipelinePhases).parse(flags['from-phase'])
+    : undefined;
+
+  let topic: string;
+  let runDir: string;
+  if (flags.resume) {
+    runDir = await resolveRunDir(flags.resume, outDir);
+    topic = (await readRunInfo(runDir)).topic;
+  } else if (target) {
+    topic = target;
+    runDir = defaultRunDir(topic, outDir);
+  } else {
+    throw new Error(`${command} needs a topic, or --resume <run>`);
+  }
+
+  const outputs = parseOutputs(flags);
+  const runtime = await createRuntime(config, flags, signal);
+  const researchOptions = {
+    config,
+    // Built here so missing credentials count as a usage error. Replays
+    // never search, so the pipeline stands in for the provider
+    searchProvider:
+      runtime.cassette?.mode === 'replay'
+        ? undefined
+        : createSearchProvider(config.search),
+    ...runtime,
+    runDir,
+    signal,
+    onEvent: emit,
+    resume: Boolean(flags.resume),
+    fromPhase,
+  };
+
+  return {
+    runDir,
+    runtime,
+    continues: Boolean(flags.resume),
+    async execute() {
+      if (command === 'sources') {
+        const { sources } = await research(topic, {
+          ...researchOptions,
+          until: 'sources',
+        });
+        if (print) printSources(sources);
+        return;
+      }
+      if (command === 'outline') {
+        const { outline } = await research(topic, {
+          ...researchOptions,
+          until: 'outline',
+        });
+        if (print && outline) printOutline(outline);
+        return;
+      }
+
+      const { post } = await research(topic, researchOptions);
+      if (!post) throw new Error('The pipeline finished without a post');
+      await writePost(post, topic, runDir, outputs, emit);
+      if (runtime.cassette) {
+        await checkRecordedPost(post, topic, runDir, runtime.cassette);
+      }
+      if (command === 'research') {
+        await writeRunThread(
+          { blogPost: post },
+          {
+            topic,
+            runDir,
+            models: runtime.models,
+            prompts: runtime.prompts,
+            language: config.writing.language,
+            emit,
+          }
+        );
+      }
+      emit({ type: 'run:end', post });
+    },
+  };
+}
+
+async function main(args: string[]): Promise<number> {
+  let emit: EventSink;
+  let job: Job;
+  // Ctrl-C stops at the next call, keeping the finished phases' checkpoints
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort(new Error('Interrupted')));
+  try {
+    const { values: flags, positionals } = parseCommandLine(args);
+    const [name, ...rest] = positionals;
+    if (name && !commandNames.includes(name as Command)) {
+      throw new Error(`Unknown command "${name}"`);
+    }
+    const command = name as Command | undefined;
+    if (flags.help || !command) {
+      console.log(formatHelp(command));
+      return command || flags.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    emit = createRenderer(flags);
+    const config = applyFlags(await loadConfig(flags.config), flags);
+    // Unquoted topics arrive as several words
+    const target = rest.length ? rest.join(' ') : undefined;
+    job = await prepare(
+      command,
+      target,
+      flags,
+      config,
+      emit,
+      controller.signal
+    );
+  } catch (error) {
+    console.error(kleur.red(`Error: ${errorMessage(error)}`));
+    console.error(kleur.dim(`Run ${PROGRAM} --help for usage`));
+    return EXIT_USAGE;
+  }
+
+  const reportUsage = async () => {
+    if (!job.runtime) return;
+    const report = job.runtime.usage.report();
+    const usagePath = await writeUsageReport(job.runDir, report, {
+      merge: job.continues,
+    });
+    emit({ type: 'usage', report });
+    emit({ type: 'artifact:written', name: 'usage', path: usagePath });
+  };
+
+  try {
+    await job.execute();
+    if (job.runtime) {
+      emit({ type: 'cache:stats', stats: job.runtime.cache.stats() });
+    }
+    await reportUsage();
+    return EXIT_OK;
+  } catch (error) {
+    const overBudget = error instanceof BudgetExceededError;
+    const interrupted = controller.signal.aborted;
+    emit({
+      type: 'run:error',
+      message: overBudget
+        ? `${error.message}. Resume with a larger budget: ` +
+          `--resume ${job.runDir} --budget <dollars>`
+        : interrupted
+          ? `Interrupted. Resume with --resume ${job.runDir}`
+          : describeError(error),
+    });
+    await reportUsage();
+    if (overBudget) return EXIT_BUDGET;
+    if (interrupted) return EXIT_INTERRUPTED;
+    return error instanceof UsageError || error instanceof z.ZodError
+      ? EXIT_USAGE
+      : EXIT_FAILURE;
+  }
+}
+
+process.exit(await main(process.argv.slice(2)));
@@ -0,0 +1,331 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { parseDate, recencies } from './utils/dates.js';
+import { UsageError } from './errors.js';
+
+export const DEFAULT_CONFIG_FILE = 'deeptweet.config.json';
+
+export const searchProviderNames = [
+  'serper',
+  'brave',
+  'searxng',
+  'fixture',
+] as const;
+
+export const modelPhases = [
+  'query',
+  'condense',
+  'analyze',
+  'outline',
+  'section',
+  'polish',
+  'final',
+  'thread',
+  'verify',
+] as const;
+
+export interface ModelSpec {
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Either `{ "provider": "ollama", "model": "llama3.1" }` or the shorthand
+// `"ollama:llama3.1"`. The provider defaults to `openai`.
+export const modelSpecSchema = z.union([
+  z
+    .string()
+    .min(1)
+    .transform((spec): ModelSpec => {
+      const separator = spec.indexOf(':');
+      return separator === -1
+        ? { provider: 'openai', model: spec }
+        : {
+            provider: spec.slice(0, separator),
+            model: spec.slice(separator + 1),
+          };
+    }),
+  z.object({
+    provider: z.string().default('openai'),
+    model: z.string(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().min(1).optional(),
+  }),
+]);
+
+const researchProfileSchema = z.object({
+  description: z
+    .string()
+    .describe('What the research is for, e.g. "a news story"'),
+  angles: z.array(z.string()).min(1),
+  queries: z
+    .number()
+    .int()
+    .min(1)
+    .default(3)
+    .describe('Queries in the first round, one per angle'),
+  queryPrompt: z
+    .string()
+    .optional()
+    .describe('Extra instructions for the query model'),
+  analysisPrompt: z
+    .string()
+    .optional()
+    .describe('Extra instructions for the analysis of each round'),
+});
+
+/** The 1 to 5 ratings a post's metadata can carry */
+export const postRatings = ['technical_level', 'business_impact'] as const;
+
+const writingProfileSchema = z.object({
+  description: z
+    .string()
+    .describe('What is being written, e.g. "a technical blog post"'),
+  audience: z.string().describe('Who it is for, e.g. "engineers"'),
+  tone: z
+    .string()
+    .describe('How it should sound, e.g. "precise and practical"'),
+  focus: z
+    .string()
+    .describe(
+      'What to emphasize, e.g. "practical insights and business value"'
+    ),
+  sectionWords: z
+    .number()
+    .int()
+    .min(50)
+    .default(300)
+    .describe('Target length of each section, in words'),
+  readingLevel: z
+    .number()
+    .min(1)
+    .max(18)
+    .optional()
+    .describe('Target Flesch-Kincaid grade level'),
+  bannedPhrases: z
+    .array(z.string())
+    .default([])
+    .describe('Phrases the post must not use'),
+  ratings: z
+    .array(z.enum(postRatings))
+    .default([])
+    .describe("Ratings kept in the post's metadata"),
+});
+
+const providerSchema = z.object({
+  baseURL: z.string().describe('Any OpenAI-compatible endpoint'),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z
+    .string()
+    .optional()
+    .describe('Name of the environment variable holding the API key'),
+});
+
+export const configSchema = z.object({
+  search: z
+    .object({
+      provider: z.enum(searchProviderNames).default('serper'),
+      // One query per research angle, the profile's count when unset
+      queries: z.number().int().min(1).max(10).optional(),
+      resultsPerQuery: z.number().int().min(1).default(5),
+      // Sources fetched at most across all queries, no limit when unset
+      maxSources: z.number().int().min(1).optional(),
+      searxngUrl: z.string().optional(),
+      fixturesDir: z.string().default('fixtures/search'),
+      // Added to every query as site: and -site: operators. The `sources`
+      // policy filters whatever the search returns
+      allowlist: z.array(z.string()).default([]),
+      blocklist: z.array(z.string()).default([]),
+      // Only material published on or after this date (YYYY-MM-DD), or
+      // within this span before the run. `since` wins when both are set
+      since: z
+        .string()
+        .refine((value) => !!parseDate(value), 'Expected a date')
+        .optional(),
+      recency: z.enum(recencies).optional(),
+    })
+    .default({}),
+  cache: z
+    .object({
+      enabled: z.boolean().default(true),
+      dir: z.string().default('.cache'),
+      // Seconds: search results go stale quickly, pages less so, and a
+      // given prompt to a given model is worth keeping for a while
+      ttl: z
+        .object({
+          search: z.number().min(0).default(24 * 60 * 60),
+          page: z.number().min(0).default(7 * 24 * 60 * 60),
+          robots: z.number().min(0).default(24 * 60 * 60),
+          llm: z.number().min(0).default(30 * 24 * 60 * 60),
+          embedding: z.number().min(0).default(30 * 24 * 60 * 60),
+        })
+        .default({}),
+    })
+    .default({}),
+  scrape: z
+    .object({
+      userAgent: z.string().default('DeepTweetBot/1.0'),
+      respectRobots: z.boolean().default(true),
+      concurrency: z.number().int().min(1).default(8),
+      perHostConcurrency: z.number().int().min(1).default(2),
+      // Milliseconds between requests to one host. A longer robots.txt
+      // Crawl-delay wins.
+      perHostDelay: z.number().int().min(0).default(1000),
+      timeout: z.number().int().min(1).default(10000),
+      maxRedirects: z.number().int().min(0).default(5),
+      // Retries after a 429, a 5xx, a timeout or a dropped connection
+      retries: z.number().int().min(0).default(3),
+      // Larger responses are aborted rather than downloaded
+      maxBytes: z.number().int().min(1).default(10 * 1024 * 1024),
+      maxPdfPages: z.number().int().min(1).default(30),
+      // Extracted text past this is cut before condensing
+      maxChars: z.number().int().min(1000).default(60000),
+    })
+    .default({}),
+  sources: z
+    .object({
+      // Domain patterns. `example.com` also matches its subdomains and `*`
+      // matches anything (`*.gov`). A non-empty `allow` excludes every
+      // domain not in it
+      allow: z.array(z.string()).default([]),
+      block: z
+        .array(z.string())
+        .default([
+          'youtube.com',
+          'facebook.com',
+          'twitter.com',
+          'instagram.com',
+        ]),
+      // Ranked above every other domain
+      prefer: z.array(z.string()).default([]),
+      // Fetched pages shorter than this, in characters, are dropped
+      minLength: z.number().int().min(0).default(300),
+      // Fetched pages scoring below this (0 to 1) are dropped
+      minScore: z.number().min(0).max(1).default(0.25),
+      // Pages this similar (0 to 1) to one already kept are merged into it
+      // as alternate URLs
+      duplicateSimilarity: z.number().min(0).max(1).default(0.8),
+      // Only the best this many pages are kept, all when unset
+      keep: z.number().int().min(1).optional(),
+    })
+    .default({}),
+  research: z
+    .object({
+      // A built-in profile (technical, business, academic, news,
+      // comparison) or one defined under `profiles`
+      profile: z.string().default('technical'),
+      // Have the query model propose angles for the topic instead of
+      // using the profile's
+      autoAngles: z.boolean().default(false),
+      profiles: z.record(researchProfileSchema).default({}),
+      // Rounds of searching. Every round after the first follows up on
+      // the gaps left by the ones before it
+      depth: z.number().int().min(1).max(5).default(2),
+      // Follow-up queries per round
+      breadth: z.number().int().min(1).max(6).default(3),
+    })
+    .default({}),
+  retrieval: z
+    .object({
+      topK: z.number().int().min(1).default(8),
+      chunkSize: z.number().int().min(200).default(2000),
+      overlap: z.number().int().min(0).default(200),
+    })
+    .default({}),
+  verification: z
+    .object({
+      // mark: flag unsupported claims inline, soften: hedge or drop them,
+      // remove: delete the sentences making them, off: skip the pass
+      mode: z.enum(['mark', 'soften', 'remove', 'off']).default('mark'),
+      topK: z.number().int().min(1).default(4),
+    })
+    .default({}),
+  writing: z
+    .object({
+      // Prompts are in English, any other language is asked for explicitly
+      language: z.string().min(1).default('English'),
+      // A built-in profile (engineers, executives, general) or one defined
+      // under `profiles`
+      profile: z.string().default('engineers'),
+      profiles: z.record(writingProfileSchema).default({}),
+    })
+    .default({}),
+  prompts: z
+    .object({
+      // `<id>.md` files here replace the built-in prompts
+      dir: z.string().default('prompts'),
+    })
+    .default({}),
+  budget: z
+    .object({
+      // Dollars per run, no limit when unset
+      limit: z.number().positive().optional(),
+      // abort: stop before the call that would exceed the limit,
+      // downgrade: switch every phase to `fallback` first
+      onExceed: z.enum(['abort', 'downgrade']).default('abort'),
+      fallback: modelSpecSchema.default('openai:gpt-4o-mini'),
+    })
+    .default({}),
+  // Dollars per million tokens, keyed by `provider:model` or model name.
+  // Overrides the built-in OpenAI prices.
+  pricing: z
+    .record(z.object({ input: z.number().min(0), output: z.number().min(0) }))
+    .default({}),
+  providers: z.record(providerSchema).default({}),
+  models: z
+    .object({
+      default: modelSpecSchema.default('openai:gpt-4o-mini'),
+      embedding: modelSpecSchema.default('openai:text-embedding-3-small'),
+      query: modelSpecSchema.optional(),
+      condense: modelSpecSchema.optional(),
+      analyze: modelSpecSchema.optional(),
+      outline: modelSpecSchema.optional(),
+      section: modelSpecSchema.optional(),
+      polish: modelSpecSchema.optional(),
+      final: modelSpecSchema.optional(),
+      thread: modelSpecSchema.optional(),
+      verify: modelSpecSchema.optional(),
+    })
+    .default({}),
+});
+
+export type Config = z.infer<typeof configSchema>;
+/** Config as written, before defaults are filled in */
+export type ConfigInput = z.input<typeof configSchema>;
+export type SearchProviderName = (typeof searchProviderNames)[number];
+export type ModelPhase = (typeof modelPhases)[number];
+export type ProviderConfig = z.infer<typeof providerSchema>;
+export type ResearchProfile = z.infer<typeof researchProfileSchema>;
+export type WritingProfile = z.infer<typeof writingProfileSchema>;
+export type PostRating = (typeof postRatings)[number];
+
+/**
+ * Loads `deeptweet.config.json` (or `configPath`) from the working
+ * directory. A missing default config file is fine, everything has a
+ * default. Environment variables override the file.
+ */
+export async function loadConfig(configPath?: string): Promise<Config> {
+  const filePath = path.resolve(configPath || DEFAULT_CONFIG_FILE);
+
+  let raw: unknown = {};
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+    if (!missing || configPath) {
+      throw new UsageError(`Could not read config ${filePath}: ${error}`);
+    }
+  }
+
+  const config = configSchema.parse(raw);
+
+  if (process.env.SEARCH_PROVIDER) {
+    config.search.provider = z
+      .enum(searchProviderNames)
+      .parse(process.env.SEARCH_PROVIDER);
+  }
+
+  return config;
+}
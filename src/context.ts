@@ -0,0 +1,30 @@
+import { Cache } from './cache.js';
+import { Config } from './config.js';
+import { EventSink } from './events.js';
+import { ModelRegistry } from './models.js';
+import { PromptRegistry } from './prompts/registry.js';
+import { SearchProvider } from './types.js';
+import { Fetcher } from './web/fetcher.js';
+
+/**
+ * Everything a pipeline phase needs besides its inputs
+ */
+export interface RunContext {
+  topic: string;
+  /** Directory holding this run's artifacts and checkpoints */
+  runDir: string;
+  config: Config;
+  /** When the run started. Replays use the recording's, so prompts match */
+  now: Date;
+  models: ModelRegistry;
+  /** Every prompt comes from here, and is recorded when used */
+  prompts: PromptRegistry;
+  searchProvider: SearchProvider;
+  cache: Cache;
+  /** Schedules every page fetch, politely */
+  fetcher: Fetcher;
+  /** Progress goes here rather than to the console */
+  emit: EventSink;
+  /** Aborts the run between phases */
+  signal?: AbortSignal;
+}
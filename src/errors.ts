@@ -0,0 +1,10 @@
+/**
+ * A problem with the arguments, the config or a run directory, one the
+ * message says how to fix. The CLI prints these without a stack trace.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
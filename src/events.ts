@@ -0,0 +1,78 @@
+import { CacheKind, CacheStats } from './cache.js';
+import { PipelinePhase } from './checkpoint.js';
+import { BlogPost } from './schemas.js';
+import { ContentPart } from './types.js';
+import { UsageReport } from './usage.js';
+
+/** Pipeline phases plus the thread, which runs after the post is done */
+export type EventPhase = PipelinePhase | 'thread';
+
+interface Progress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Everything the pipeline reports while it runs. Phases emit these instead
+ * of writing to the console, and a renderer decides what to show.
+ */
+export type PipelineEvent =
+  | { type: 'run:start'; topic: string; runDir: string; resumed: boolean }
+  | { type: 'run:end'; post: BlogPost }
+  | { type: 'run:error'; message: string }
+  | { type: 'phase:start'; phase: EventPhase }
+  | { type: 'phase:end'; phase: EventPhase; durationMs: number }
+  | { type: 'phase:resumed'; phase: PipelinePhase }
+  | ({ type: 'query:generated'; query: string } & Progress)
+  | ({
+      type: 'search:completed';
+      provider: string;
+      query: string;
+      results: number;
+    } & Progress)
+  | { type: 'sources:found'; count: number; dropped: number }
+  | {
+      type: 'round:analyzed';
+      depth: number;
+      learnings: number;
+      gaps: number;
+      followUps: number;
+      sufficient: boolean;
+    }
+  | ({ type: 'source:fetched'; url: string; title?: string } & Progress)
+  | ({ type: 'source:failed'; url: string; reason: string } & Progress)
+  | { type: 'index:built'; chunks: number }
+  | ({ type: 'section:written'; title: string } & Progress)
+  | ({
+      type: 'part:polished';
+      part: ContentPart['type'];
+      ok: boolean;
+    } & Progress)
+  | ({ type: 'claims:checked'; claims: number } & Progress)
+  | {
+      type: 'targets:checked';
+      /** Undefined when the post isn't in English */
+      grade?: number;
+      issues: number;
+      revisions: number;
+    }
+  | { type: 'verification:summary'; checked: number; flagged: number }
+  | { type: 'artifact:written'; name: string; path: string }
+  | { type: 'warning'; message: string }
+  | { type: 'usage'; report: UsageReport }
+  | { type: 'cache:stats'; stats: Record<CacheKind, CacheStats> };
+
+export type EventSink = (event: PipelineEvent) => void;
+
+/** Runs one phase between its start and end events */
+export async function trackPhase<T>(
+  emit: EventSink,
+  phase: EventPhase,
+  compute: () => Promise<T>
+): Promise<T> {
+  emit({ type: 'phase:start', phase });
+  const startedAt = Date.now();
+  const result = await compute();
+  emit({ type: 'phase:end', phase, durationMs: Date.now() - startedAt });
+  return result;
+}
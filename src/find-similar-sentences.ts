@@ -1,6 +1,6 @@
-import { openai } from '@ai-sdk/openai';
 import { embedMany } from 'ai';
-import { dot } from './utils';
+import { dot } from './utils.js';
+import { ModelRegistry } from './models.js';
 
 // see here: https://github.com/nmslib/hnswlib/blob/359b2ba87358224963986f709e593d799064ace6/README.md?plain=1#L34
 function innerProduct(embeddingA: number[], embeddingB: number[]) {
@@ -10,16 +10,16 @@ function innerProduct(embeddingA: number[], embeddingB: number[]) {
 export async function findSimilarSentences(
   query: string,
   sentences: string[],
-  { topK = 5 }: { topK: number }
+  { topK = 5, models }: { topK: number; models: ModelRegistry }
 ): Promise<number[]> {
   const inputs = [query, ...sentences];
   const { embeddings } = await embedMany({
-    model: openai.embedding('text-embedding-3-small'),
+    model: models.embedding(),
     values: inputs,
   });
 
   const queryEmbedding = embeddings[0];
-  const sentencesEmbeddings = embeddings.slice(1, inputs.length - 1);
+  const sentencesEmbeddings = embeddings.slice(1);
 
   const distancesFromQuery: { distance: number; index: number }[] = [
     ...sentencesEmbeddings,
@@ -1,70 +1,50 @@
 import { format } from 'date-fns/format';
 import { Message, generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { ModelRegistry } from './models.js';
+import { PromptRegistry, createPromptRegistry } from './prompts/registry.js';
 
-// const listSchema = z.array(z.string()).default([])
-
-// const allowList = listSchema.parse(
-//   JSON5.parse(process.env.WEBSEARCH_ALLOWLIST!)
-// )
-// const blockList = listSchema.parse(
-//   JSON5.parse(process.env.WEBSEARCH_BLOCKLIST!)
-// )
+export interface QueryOptions {
+  /** Only search these domains */
+  allowlist?: string[];
+  /** Never search these domains */
+  blocklist?: string[];
+  /** Extra instructions for the query model */
+  instructions?: string;
+  /** Where the prompts come from, the built-in ones if unset */
+  prompts?: PromptRegistry;
+  /** Today, for the prompt's examples */
+  now?: Date;
+}
 
-// const queryModifier = [
-//   ...allowList.map(item => 'site:' + item),
-//   ...blockList.map(item => '-site:' + item)
-// ].join(' ')
+// Allowed sites are alternatives, so they're ORed together
+function queryModifier({ allowlist = [], blocklist = [] }: QueryOptions) {
+  return [
+    allowlist.map((domain) => `site:${domain}`).join(' OR '),
+    ...blocklist.map((domain) => `-site:${domain}`),
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
 
-export async function generateQuery(messages: Message[]) {
-  const currentDate = format(new Date(), 'MMMM d, yyyy');
+export async function generateQuery(
+  messages: Message[],
+  models: ModelRegistry,
+  options: QueryOptions = {}
+) {
+  const { prompts = createPromptRegistry(), now = new Date() } = options;
+  const currentDate = format(now, 'MMMM d, yyyy');
   const userMessages = messages.filter(({ role }) => role === 'user');
   const previousUserMessages = userMessages.slice(0, -1);
 
   const lastMessage = userMessages.slice(-1)[0];
 
-  const convQuery: Array<Omit<Message, 'id'>> = [
-    {
-      role: 'user',
-      content: `Previous Questions:
-- Who is the president of France?
-
-Current Question: What about Mexico?
-`,
-    },
-    {
-      role: 'assistant',
-      content: 'President of Mexico',
-    },
-    {
-      role: 'user',
-      content: `Previous questions: 
-- When is the next formula 1 grand prix?
-
-Current Question: Where is it being hosted ?`,
-    },
-    {
-      role: 'assistant',
-      content: 'location of next formula 1 grand prix',
-    },
-    {
-      role: 'user',
-      content:
-        'Current Question: What type of printhead does the Epson F2270 DTG printer use?',
-    },
-    {
-      role: 'assistant',
-      content: 'Epson F2270 DTG printer printhead',
-    },
-    { role: 'user', content: 'What were the news yesterday ?' },
-    {
-      role: 'assistant',
-      content: `news ${format(new Date(Date.now() - 864e5), 'MMMM d, yyyy')}`,
-    },
-    { role: 'user', content: 'What is the current weather in Paris ?' },
-    { role: 'assistant', content: `weather in Paris ${currentDate}` },
+  const convQuery = [
+    ...prompts.messages('query-examples', {
+      today: currentDate,
+      yesterday: format(new Date(now.getTime() - 864e5), 'MMMM d, yyyy'),
+    }),
     {
-      role: 'user',
+      role: 'user' as const,
       content:
         (previousUserMessages.length > 0
           ? `Previous questions: \n${previousUserMessages
@@ -77,15 +57,18 @@ Current Question: Where is it being hosted ?`,
   ];
 
   const { text } = await generateText({
-    model: openai('gpt-4o-mini'),
+    ...models.forPhase('query'),
     messages: [
       {
         role: 'system',
-        content: `You are tasked with generating web search queries. Give me an appropriate query to answer my question for google search. Answer with only the query. Today is ${currentDate}`,
+        content: prompts.render('query', {
+          today: currentDate,
+          instructions: options.instructions ? `\n${options.instructions}` : '',
+        }),
       },
-      ...convQuery.map(({ role, content }) => ({ role, content })),
+      ...convQuery,
     ],
   });
 
-  return text.trim();
+  return [text.trim(), queryModifier(options)].filter(Boolean).join(' ');
 }
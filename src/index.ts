@@ -0,0 +1,201 @@
+// The package entry point. Importing it has no side effects: nothing runs,
+// nothing is printed and the environment is only read once a run starts.
+
+export {
+  research,
+  defaultRunDir,
+  type Artifact,
+  type ResearchOptions,
+  type ResearchResult,
+} from './research.js';
+export { type RunContext } from './context.js';
+
+// Phases, for running the pipeline piece by piece
+export { generateQueries, queryOptions } from './phases/queries.js';
+export {
+  researchProfiles,
+  resolveProfile,
+  resolveWritingProfile,
+  styleInstruction,
+  writingProfiles,
+  writingVariables,
+} from './profiles.js';
+export { generateQuery, type QueryOptions } from './generate-query.js';
+export { collectSources, combineContent, listSources } from './phases/sources.js';
+export { createOutline } from './phases/outline.js';
+export { writeSections } from './phases/sections.js';
+export { writeSummary } from './phases/summary.js';
+export { polishPost, type PolishResult } from './phases/polish.js';
+export { finalizePost } from './phases/final.js';
+export { checkTargets, fitTargets, type TargetReport } from './phases/targets.js';
+export { verifyPost, formatVerificationReport } from './phases/verify.js';
+export { generateThread, type ThreadInput, type ThreadOptions } from './thread.js';
+
+export {
+  blogPostSchema,
+  outlineSchema,
+  roundAnalysisSchema,
+  threadSchema,
+  type BlogPost,
+  type Outline,
+  type RoundAnalysis,
+  type Thread,
+} from './schemas.js';
+export type {
+  RenderedThread,
+  ResearchQuery,
+  ResearchRound,
+  SearchOptions,
+  SearchProvider,
+  SearchResult,
+  Tweet,
+  VerificationReport,
+  VerifiedClaim,
+  WebContent,
+} from './types.js';
+
+export {
+  configSchema,
+  loadConfig,
+  modelPhases,
+  postRatings,
+  searchProviderNames,
+  DEFAULT_CONFIG_FILE,
+  type Config,
+  type ConfigInput,
+  type ModelPhase,
+  type ModelSpec,
+  type PostRating,
+  type ProviderConfig,
+  type ResearchProfile,
+  type SearchProviderName,
+  type WritingProfile,
+} from './config.js';
+export {
+  createModelRegistry,
+  type ModelRegistry,
+  type PhaseModel,
+} from './models.js';
+export {
+  defaultPrompts,
+  promptIds,
+  type PromptId,
+  type PromptTemplate,
+} from './prompts/defaults.js';
+export {
+  createPromptRegistry,
+  hashPrompt,
+  loadPromptOverrides,
+  writePromptManifest,
+  type PromptOverride,
+  type PromptOverrides,
+  type PromptRegistry,
+  type PromptUsage,
+  type PromptVariables,
+} from './prompts/registry.js';
+export { createSearchProvider } from './web/search.js';
+export { canonicalizeUrl } from './web/canonical.js';
+export { minhash, shingles, similarity } from './web/duplicates.js';
+export {
+  createDomainPolicy,
+  matchesDomain,
+  type DomainPolicy,
+  type DomainPolicyOptions,
+  type DomainTier,
+} from './web/policy.js';
+export {
+  scoreCandidate,
+  scorePage,
+  type SourceScore,
+  type SourceSignals,
+} from './web/scoring.js';
+export {
+  createFetcher,
+  type Fetcher,
+  type FetcherOptions,
+} from './web/fetcher.js';
+export { createCache, type Cache, type CacheOptions } from './cache.js';
+export {
+  cassetteKinds,
+  cassetteMiddleware,
+  cassetteModes,
+  checkRecording,
+  diffRecording,
+  openCassette,
+  recordEmbeddingModel,
+  recordFetcher,
+  recordSearchProvider,
+  replayOnlySearchProvider,
+  CassetteMissError,
+  type Cassette,
+  type CassetteKind,
+  type CassetteMode,
+  type CassetteOptions,
+} from './cassette.js';
+export { UsageError } from './errors.js';
+export {
+  createUsageTracker,
+  formatUsageTable,
+  writeUsageReport,
+  BudgetExceededError,
+  type BudgetOptions,
+  type UsageReport,
+  type UsageTracker,
+} from './usage.js';
+export {
+  loadCheckpoint,
+  pipelinePhases,
+  readRunInfo,
+  type PipelinePhase,
+} from './checkpoint.js';
+
+export {
+  trackPhase,
+  type EventPhase,
+  type EventSink,
+  type PipelineEvent,
+} from './events.js';
+export { createPrettyRenderer } from './renderers/pretty.js';
+export { createProgressRenderer } from './renderers/progress.js';
+export { createQuietRenderer } from './renderers/quiet.js';
+export { createJsonRenderer } from './renderers/json.js';
+
+export {
+  bibliographyFormats,
+  formatApa,
+  formatBibliography,
+  formatBibtex,
+  formatFootnotes,
+  formatMla,
+  parseNames,
+  toCslJson,
+  type BibliographyFormat,
+} from './bibliography.js';
+export { type Reference } from './citations.js';
+export {
+  countSyllables,
+  countWords,
+  fleschKincaidGrade,
+} from './utils/readability.js';
+export {
+  describeAge,
+  parseDate,
+  recencies,
+  resolveSince,
+  type Recency,
+} from './utils/dates.js';
+export {
+  postFormats,
+  postRenderers,
+  renderPost,
+  writePostFormat,
+  type PostFormat,
+  type PostRenderer,
+} from './post/formats.js';
+export { renderOptions, type RenderOptions } from './post/options.js';
+export { renderHtml } from './post/html.js';
+export { renderJson } from './post/json.js';
+export { renderMarkdown, renderMdx } from './post/markdown.js';
+export { renderText } from './post/text.js';
+export { writeBlogPostMarkdown } from './utils/markdown.js';
+export { formatThreadText, writeThread } from './utils/thread.js';
@@ -0,0 +1,165 @@
+import { createOpenAI, openai, OpenAIProvider } from '@ai-sdk/openai';
+import {
+  EmbeddingModel,
+  Experimental_LanguageModelV1Middleware,
+  LanguageModel,
+  experimental_wrapLanguageModel as wrapLanguageModel,
+} from 'ai';
+import { Cache, cacheMiddleware } from './cache.js';
+import { Cassette, cassetteMiddleware, recordEmbeddingModel } from './cassette.js';
+import {
+  UsageTracker,
+  modelLabel,
+  trackEmbeddingModel,
+  usageMiddleware,
+} from './usage.js';
+import {
+  Config,
+  ModelPhase,
+  ModelSpec,
+  ProviderConfig,
+  modelPhases,
+} from './config.js';
+import { UsageError } from './errors.js';
+
+/**
+ * Spread straight into `generateText`/`generateObject`:
+ * `generateText({ ...models.forPhase('outline'), messages })`
+ */
+export interface PhaseModel {
+  model: LanguageModel;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelRegistry {
+  forPhase(phase: ModelPhase): PhaseModel;
+  embedding(): EmbeddingModel<string>;
+  /** `provider:model` for each phase, for logging */
+  describe(): Record<ModelPhase | 'embedding', string>;
+}
+
+function createProvider(name: string, config: ProviderConfig): OpenAIProvider {
+  const apiKey = config.apiKeyEnv
+    ? process.env[config.apiKeyEnv]
+    : config.apiKey;
+
+  return createOpenAI({
+    name,
+    baseURL: config.baseURL,
+    // Local servers (Ollama, llama.cpp) ignore the key but the SDK
+    // insists on one
+    apiKey: apiKey || 'not-needed',
+    compatibility: 'compatible',
+  });
+}
+
+// Calls made without their own signal stop when the run is aborted
+function abortMiddleware(
+  signal: AbortSignal
+): Experimental_LanguageModelV1Middleware {
+  return {
+    transformParams: async ({ params }) => ({
+      ...params,
+      abortSignal: params.abortSignal || signal,
+    }),
+    async wrapGenerate({ doGenerate }) {
+      // Cache hits never reach the provider
+      signal.throwIfAborted();
+      return doGenerate();
+    },
+  };
+}
+
+/**
+ * Resolves the model for each pipeline phase from config. Phases without
+ * their own entry use `models.default`. Any provider other than `openai`
+ * must be declared under `providers` as an OpenAI-compatible endpoint.
+ */
+export function createModelRegistry(
+  config: Config,
+  {
+    cache,
+    usage,
+    signal,
+    cassette,
+  }: {
+    cache?: Cache;
+    usage?: UsageTracker;
+    signal?: AbortSignal;
+    cassette?: Cassette;
+  } = {}
+): ModelRegistry {
+  const providers = new Map<string, OpenAIProvider>([['openai', openai]]);
+
+  const getProvider = (name: string) => {
+    let provider = providers.get(name);
+    if (!provider) {
+      const providerConfig = config.providers[name];
+      if (!providerConfig) {
+        throw new UsageError(
+          `Unknown model provider "${name}", add it under "providers" in the config`
+        );
+      }
+      provider = createProvider(name, providerConfig);
+      providers.set(name, provider);
+    }
+    return provider;
+  };
+
+  const specFor = (phase: ModelPhase): ModelSpec =>
+    config.models[phase] || config.models.default;
+
+  return {
+    forPhase(phase) {
+      // Past the budget's comfort zone this is the fallback model
+      const spec = usage ? usage.select(specFor(phase)) : specFor(phase);
+      let model: LanguageModel = getProvider(spec.provider)(spec.model);
+      // Right around the provider, so replays still count as usage
+      if (cassette) {
+        model = wrapLanguageModel({
+          model,
+          middleware: cassetteMiddleware(cassette),
+        });
+      }
+      // Usage sits inside the cache so cache hits cost nothing
+      if (usage) {
+        model = wrapLanguageModel({
+          model,
+          middleware: usageMiddleware(usage, phase, spec),
+        });
+      }
+      if (cache) {
+        model = wrapLanguageModel({
+          model,
+          middleware: cacheMiddleware(cache),
+        });
+      }
+      if (signal) {
+        model = wrapLanguageModel({
+          model,
+          middleware: abortMiddleware(signal),
+        });
+      }
+      return {
+        model,
+        temperature: spec.temperature,
+        maxTokens: spec.maxTokens,
+      };
+    },
+    embedding() {
+      const spec = config.models.embedding;
+      let model = getProvider(spec.provider).embedding(spec.model);
+      if (cassette) model = recordEmbeddingModel(model, cassette);
+      return usage ? trackEmbeddingModel(model, usage, spec) : model;
+    },
+    describe() {
+      return {
+        ...(Object.fromEntries(
+          modelPhases.map((phase) => [phase, modelLabel(specFor(phase))])
+        ) as Record<ModelPhase, string>),
+        embedding: modelLabel(config.models.embedding),
+      };
+    },
+  };
+}
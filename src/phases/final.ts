@@ -0,0 +1,64 @@
+import { generateObject } from 'ai';
+import { RunContext } from '../context.js';
+import { BlogPost, blogPostSchema } from '../schemas.js';
+import { WebContent } from '../types.js';
+import { resolveCitations } from '../citations.js';
+import { resolveWritingProfile, writingVariables } from '../profiles.js';
+import { fitTargets } from './targets.js';
+
+export async function finalizePost(
+  ctx: RunContext,
+  improved: BlogPost,
+  contents: WebContent[]
+): Promise<BlogPost> {
+  const { config, models, prompts, emit } = ctx;
+  const { object: final } = await generateObject({
+    ...models.forPhase('final'),
+    schema: blogPostSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('final', writingVariables(config.writing)),
+      },
+      {
+        role: 'user',
+        content: JSON.stringify(improved),
+      },
+    ],
+  });
+
+  // Trim, expand or reword it to match the writing profile
+  const fitted = await fitTargets(ctx, final);
+
+  // Calculate reading time (rough estimate: 200 words per minute)
+  const wordCount = fitted.content
+    .map((block) => block.text.split(/\s+/).length)
+    .reduce((a: number, b: number) => a + b, 0);
+  const readingTime = Math.ceil(wordCount / 200);
+
+  // Turn [S3] markers into footnotes that match the reference list
+  const { post, report } = resolveCitations(fitted, contents);
+  if (report.unknownIds.length) {
+    emit({
+      type: 'warning',
+      message: `Removed citations to unknown sources: ${report.unknownIds.join(
+        ', '
+      )}`,
+    });
+  }
+
+  const { ratings } = resolveWritingProfile(config.writing);
+  return {
+    ...post,
+    metadata: {
+      reading_time: readingTime,
+      technical_level: ratings.includes('technical_level')
+        ? post.metadata.technical_level
+        : undefined,
+      business_impact: ratings.includes('business_impact')
+        ? post.metadata.business_impact
+        : undefined,
+      tags: post.metadata.tags,
+    },
+  };
+}
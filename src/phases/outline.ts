@@ -0,0 +1,38 @@
+import { generateObject } from 'ai';
+import fs from 'fs/promises';
+import path from 'path';
+import { RunContext } from '../context.js';
+import { Outline, outlineSchema } from '../schemas.js';
+import { WebContent } from '../types.js';
+import { combineContent } from './sources.js';
+import { writingVariables } from '../profiles.js';
+
+export async function createOutline(
+  { topic, runDir, config, models, prompts, emit }: RunContext,
+  contents: WebContent[]
+): Promise<Outline> {
+  const { object: outline } = await generateObject({
+    ...models.forPhase('outline'),
+    schema: outlineSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('outline', {
+          ...writingVariables(config.writing),
+          topic,
+        }),
+      },
+      {
+        role: 'user',
+        content: combineContent(contents),
+      },
+    ],
+  });
+
+  // Write outline to file
+  const outlinePath = path.join(runDir, '2-outline.json');
+  await fs.writeFile(outlinePath, JSON.stringify(outline, null, 2), 'utf-8');
+  emit({ type: 'artifact:written', name: 'outline', path: outlinePath });
+
+  return outline;
+}
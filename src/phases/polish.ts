@@ -0,0 +1,155 @@
+import { generateObject } from 'ai';
+import fs from 'fs/promises';
+import path from 'path';
+import { RunContext } from '../context.js';
+import { BlogPost, Outline, blogPostSchema } from '../schemas.js';
+import { ContentPart, SectionDraft, SummaryDraft, WebContent } from '../types.js';
+import { chunk } from '../utils.js';
+import { writeBlogPostMarkdown } from '../utils/markdown.js';
+import { writingVariables } from '../profiles.js';
+import { formatSourceList } from '../citations.js';
+import { BudgetExceededError } from '../usage.js';
+import { CassetteMissError } from '../cassette.js';
+
+export interface PolishResult {
+  improvedParts: BlogPost[];
+  improved: BlogPost;
+}
+
+export async function polishPost(
+  { topic, runDir, config, now, models, prompts, emit }: RunContext,
+  outline: Outline,
+  sections: SectionDraft[],
+  { summary, conclusion }: SummaryDraft,
+  contents: WebContent[]
+): Promise<PolishResult> {
+  // Step 6: Quality Improvement
+  // Break down the content for more manageable processing
+  const contentParts: ContentPart[] = [
+    { type: 'title' as const, content: outline.title },
+    { type: 'summary' as const, content: summary },
+    ...sections.map((s) => ({
+      type: 'section' as const,
+      title: s.title,
+      content: s.content,
+    })),
+    { type: 'conclusion' as const, content: conclusion },
+  ];
+
+  const writing = writingVariables(config.writing);
+
+  // Process parts in parallel batches with error handling
+  const improvedParts: BlogPost[] = [];
+  const partBatches = chunk(contentParts, 2); // Process 2 parts at a time
+  let completed = 0;
+  const progress = () => ({
+    completed: ++completed,
+    total: contentParts.length,
+  });
+
+  for (const batch of partBatches) {
+    const batchResults = await Promise.all(
+      batch.map(async (part) => {
+        try {
+          // Prepare content
+          const content =
+            part.type === 'section'
+              ? `${part.title}\n\n${part.content}`
+              : part.content;
+
+          // Process content
+          const { object: improvedPart } = await generateObject({
+            ...models.forPhase('polish'),
+            schema: blogPostSchema,
+            messages: [
+              {
+                role: 'system',
+                content: prompts.render('polish', {
+                  ...writing,
+                  part: part.type,
+                }),
+              },
+              {
+                role: 'user',
+                content: `${content}\n\nAvailable sources:\n${formatSourceList(
+                  contents,
+                  now
+                )}`,
+              },
+            ],
+          });
+
+          emit({
+            type: 'part:polished',
+            part: part.type,
+            ok: true,
+            ...progress(),
+          });
+          return improvedPart;
+        } catch (error) {
+          if (
+            error instanceof BudgetExceededError ||
+            error instanceof CassetteMissError
+          ) {
+            throw error;
+          }
+          emit({
+            type: 'warning',
+            message: `Error processing ${part.type}: ${error}`,
+          });
+          emit({
+            type: 'part:polished',
+            part: part.type,
+            ok: false,
+            ...progress(),
+          });
+          return null; // Return null for failed parts
+        }
+      })
+    );
+
+    // Filter out failed parts
+    improvedParts.push(
+      ...batchResults.filter((part): part is BlogPost => part !== null)
+    );
+  }
+
+  // Combine improved parts
+  const { object: improved } = await generateObject({
+    ...models.forPhase('polish'),
+    schema: blogPostSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('combine', writing),
+      },
+      {
+        role: 'user',
+        content: JSON.stringify(improvedParts),
+      },
+    ],
+  });
+
+  // Write improved version to files
+  const improvedJsonPath = path.join(runDir, '3-improved.json');
+  await fs.writeFile(
+    improvedJsonPath,
+    JSON.stringify(improved, null, 2),
+    'utf-8'
+  );
+  emit({
+    type: 'artifact:written',
+    name: 'improved JSON',
+    path: improvedJsonPath,
+  });
+
+  const improvedMdPath = path.join(runDir, '3-improved.md');
+  await writeBlogPostMarkdown(improved, topic, improvedMdPath);
+  emit({
+    type: 'artifact:written',
+    name: 'improved markdown',
+    path: improvedMdPath,
+  });
+
+  return { improvedParts, improved };
+}
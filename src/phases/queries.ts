@@ -0,0 +1,86 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { Config, ResearchProfile } from '../config.js';
+import { RunContext } from '../context.js';
+import { QueryOptions, generateQuery } from '../generate-query.js';
+import { PromptRegistry } from '../prompts/registry.js';
+import { resolveProfile } from '../profiles.js';
+import { UsageError } from '../errors.js';
+
+/** Site modifiers and the profile's instructions, for every query */
+export function queryOptions(
+  config: Config,
+  prompts?: PromptRegistry,
+  now?: Date
+): QueryOptions {
+  return {
+    allowlist: config.search.allowlist,
+    blocklist: config.search.blocklist,
+    instructions: resolveProfile(config.research).queryPrompt,
+    prompts,
+    now,
+  };
+}
+
+// The profile's angles serve as examples of what a good one looks like
+async function proposeAngles(
+  { topic, models, prompts }: RunContext,
+  profile: ResearchProfile,
+  count: number
+): Promise<string[]> {
+  const { object } = await generateObject({
+    ...models.forPhase('query'),
+    schema: z.object({
+      angles: z
+        .array(z.string().describe('A short phrase, appended to the topic'))
+        .describe('Distinct aspects of the topic, most important first'),
+    }),
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('angles', {
+          count,
+          description: profile.description,
+          example: profile.angles[0],
+        }),
+      },
+      { role: 'user', content: topic },
+    ],
+  });
+  return object.angles.slice(0, count);
+}
+
+export async function generateQueries(ctx: RunContext): Promise<string[]> {
+  const { topic, config, models, prompts, now, emit } = ctx;
+  const profile = resolveProfile(config.research);
+  const count = config.search.queries ?? profile.queries;
+  // One query per angle, more than the profile has would be cut silently
+  if (!config.research.autoAngles && count > profile.angles.length) {
+    throw new UsageError(
+      `${count} queries asked for, but the "${config.research.profile}" profile has ${profile.angles.length} angles: ask for fewer, or turn on autoAngles (--auto-angles)`
+    );
+  }
+  const angles = config.research.autoAngles
+    ? await proposeAngles(ctx, profile, count)
+    : profile.angles.slice(0, count);
+  const options = queryOptions(config, prompts, now);
+  let completed = 0;
+
+  // Generate multiple search queries for different aspects
+  return Promise.all(
+    angles.map(async (angle, i) => {
+      const query = await generateQuery(
+        [{ id: String(i + 1), role: 'user', content: `${topic} ${angle}` }],
+        models,
+        options
+      );
+      emit({
+        type: 'query:generated',
+        query,
+        completed: ++completed,
+        total: angles.length,
+      });
+      return query;
+    })
+  );
+}
@@ -0,0 +1,79 @@
+import { generateText } from 'ai';
+import { RunContext } from '../context.js';
+import { Outline } from '../schemas.js';
+import { SectionDraft, WebContent } from '../types.js';
+import { chunk } from '../utils.js';
+import { buildChunkIndex, formatChunks, retrieveChunks } from '../retrieval.js';
+import { writingVariables } from '../profiles.js';
+
+export async function writeSections(
+  { models, prompts, cache, config, now, emit }: RunContext,
+  outline: Outline,
+  contents: WebContent[]
+): Promise<SectionDraft[]> {
+  const retrieval = {
+    models,
+    cache,
+    chunkSize: config.retrieval.chunkSize,
+    overlap: config.retrieval.overlap,
+  };
+
+  const writing = writingVariables(config.writing);
+
+  // Embed every source once, each section then pulls only what it needs
+  const index = await buildChunkIndex(contents, retrieval);
+  emit({ type: 'index:built', chunks: index.chunks.length });
+
+  // Process sections in batches of 3 to avoid rate limits
+  const sectionBatches = chunk(outline.sections, 3);
+  const sections: SectionDraft[] = [];
+  let completed = 0;
+
+  for (const batch of sectionBatches) {
+    const batchResults = await Promise.all(
+      batch.map(async (section) => {
+        const relevant = await retrieveChunks(
+          index,
+          `${section.title}\n${section.key_points.join('\n')}`,
+          { ...retrieval, topK: config.retrieval.topK }
+        );
+
+        const { text: content } = await generateText({
+          ...models.forPhase('section'),
+          messages: [
+            {
+              role: 'system',
+              content: prompts.render('section', {
+                ...writing,
+                keyPoints: section.key_points.join(', '),
+              }),
+            },
+            {
+              role: 'user',
+              content: `Section title: ${section.title}\n\nReference content:\n${formatChunks(
+                relevant,
+                now
+              )}`,
+            },
+          ],
+        });
+
+        emit({
+          type: 'section:written',
+          title: section.title,
+          completed: ++completed,
+          total: outline.sections.length,
+        });
+
+        return {
+          title: section.title,
+          content,
+          sources: Array.from(new Set(relevant.map((chunk) => chunk.url))),
+        };
+      })
+    );
+    sections.push(...batchResults);
+  }
+
+  return sections;
+}
@@ -0,0 +1,595 @@
+import { generateObject } from 'ai';
+import { format } from 'date-fns/format';
+import fs from 'fs/promises';
+import path from 'path';
+import { assignSourceIds } from '../citations.js';
+import { RunContext } from '../context.js';
+import { generateQuery } from '../generate-query.js';
+import { resolveProfile } from '../profiles.js';
+import { queryOptions } from './queries.js';
+import { RoundAnalysis, roundAnalysisSchema } from '../schemas.js';
+import { ResearchQuery, ResearchRound, WebContent } from '../types.js';
+import { BudgetExceededError } from '../usage.js';
+import { CassetteMissError } from '../cassette.js';
+import { resolveSince } from '../utils/dates.js';
+import { canonicalizeUrl } from '../web/canonical.js';
+import { minhash, similarity } from '../web/duplicates.js';
+import { createDomainPolicy, DomainPolicy } from '../web/policy.js';
+import {
+  condenseSource,
+  extractSource,
+  ExtractedSource,
+} from '../web/scrape.js';
+import {
+  scoreCandidate,
+  scorePage,
+  SourceScore,
+  SourceSignals,
+} from '../web/scoring.js';
+import { searchWeb } from '../web/search.js';
+
+export function listSources(contents: WebContent[]) {
+  return contents.map((content) => content.url).filter(Boolean);
+}
+
+export function combineContent(contents: WebContent[]) {
+  return contents.map((content) => content.content).join('\n\n');
+}
+
+// Sources are cut to this much text when a round is analyzed
+const ANALYSIS_CHARS_PER_SOURCE = 4000;
+
+interface Round {
+  queries: ResearchQuery[];
+  /** The pages that passed scoring */
+  fetched: WebContent[];
+}
+
+/** Records other URLs of a page, other than the one it's cited by */
+function addAlternates(page: WebContent, urls: string[]) {
+  const alternates = new Set(page.alternateUrls);
+  urls.filter((url) => url !== page.url).forEach((url) => alternates.add(url));
+  if (alternates.size) page.alternateUrls = Array.from(alternates);
+}
+
+/** A fetched page that passed scoring, or why it was dropped */
+interface FetchOutcome {
+  url: string;
+  score: number;
+  signals: SourceSignals;
+  reason?: string;
+  result?: WebContent;
+  /** URL of the page this one is a copy of, it's never condensed */
+  duplicateOf?: string;
+  /** Every URL of the page, merged into the one kept */
+  urls?: string[];
+}
+
+/** Why a page couldn't be read. Rethrows what should end the run */
+function failure(error: unknown) {
+  if (
+    error instanceof BudgetExceededError ||
+    error instanceof CassetteMissError
+  ) {
+    throw error;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** An extracted page, not condensed yet, and the URLs it was found under */
+interface Copy {
+  url: string;
+  urls: string[];
+  source: ExtractedSource;
+}
+
+/** What every round adds to, so later rounds skip what's been seen */
+interface Collection {
+  policy: DomainPolicy;
+  /** Canonical keys of every URL fetched */
+  seenUrls: Set<string>;
+  /** Canonical keys of the URLs the domain policy excluded */
+  excluded: Set<string>;
+  /** Kept pages by the canonical keys of all their URLs */
+  byUrl: Map<string, WebContent>;
+  /** MinHash signatures of the kept pages */
+  signatures: Array<{ page: WebContent; signature: Uint32Array }>;
+  /** Every search result considered, scored before fetching */
+  candidates: SourceScore[];
+  /** Every page fetched, scored on its content */
+  pages: SourceScore[];
+}
+
+/**
+ * Searches every query, ranks the new results and fetches the best ones,
+ * keeping the pages that score well enough
+ */
+async function searchAndFetch(
+  {
+    config,
+    now,
+    models,
+    prompts,
+    searchProvider,
+    cache,
+    fetcher,
+    emit,
+  }: RunContext,
+  queries: Array<Omit<ResearchQuery, 'sources'>>,
+  { round, limit }: { round: number; limit: number },
+  collection: Collection
+): Promise<Round> {
+  const { policy, seenUrls, excluded, byUrl, signatures, pages } = collection;
+  const since = resolveSince(config.search, now);
+  const cutoff = since && format(since, 'yyyy-MM-dd');
+  // Run searches and web parsing concurrently
+  let searched = 0;
+  const allResults = await Promise.all(
+    queries.map(async ({ query }) => {
+      const results = await searchWeb(searchProvider, query, {
+        num: config.search.resultsPerQuery,
+        since,
+        now,
+        cache,
+      });
+      emit({
+        type: 'search:completed',
+        provider: searchProvider.name,
+        query,
+        results: results.length,
+        completed: ++searched,
+        total: queries.length,
+      });
+      return results.map((result, rank) => ({ query, rank, result }));
+    })
+  );
+  // Interleave the queries' results so equally ranked hits of every query
+  // come before the next rank of any
+  const longest = Math.max(0, ...allResults.map((results) => results.length));
+  const interleaved = Array.from({ length: longest }, (_, rank) =>
+    allResults.map((results) => results[rank])
+  )
+    .flat()
+    .filter(Boolean);
+
+  // Variants of the same URL are fetched once, under the first one found
+  const found = new Map<
+    string,
+    { query: string; urls: string[]; publishedAt?: string }
+  >();
+  const candidates: SourceScore[] = [];
+  for (const { query, rank, result } of interleaved) {
+    const url = result.link;
+    const key = canonicalizeUrl(url);
+    if (seenUrls.has(key)) {
+      const page = byUrl.get(key);
+      if (page) addAlternates(page, [url]);
+      continue;
+    }
+    if (excluded.has(key)) continue;
+    const variants = found.get(key);
+    if (variants) {
+      variants.urls.push(url);
+      continue;
+    }
+    found.set(key, { query, urls: [url], publishedAt: result.publishedAt });
+    const reason = policy.exclude(url);
+    if (reason) excluded.add(key);
+    candidates.push({
+      url,
+      round,
+      ...scoreCandidate(policy, {
+        url,
+        rank,
+        text: `${result.title} ${result.snippet}`,
+      }),
+      kept: !reason,
+      reason,
+    });
+  }
+  // Stable, so ties keep their interleaved order
+  const allowed = candidates
+    .filter((candidate) => candidate.kept)
+    .sort((a, b) => b.score - a.score);
+  allowed.slice(limit).forEach((candidate) => {
+    candidate.kept = false;
+    candidate.reason = 'over the source limit';
+  });
+  collection.candidates.push(...candidates);
+  const uniqueUrls = allowed.slice(0, limit).map(({ url }) => url);
+  uniqueUrls.forEach((url) => seenUrls.add(canonicalizeUrl(url)));
+  emit({
+    type: 'sources:found',
+    count: uniqueUrls.length,
+    dropped: candidates.length - uniqueUrls.length,
+  });
+
+  // The fetcher paces requests per host, so every source can be queued
+  // at once. Pages are only compared once all are in, so which copy of a
+  // duplicate is kept depends on rank rather than on which came back first
+  let completed = 0;
+  const progress = (url: string) => ({
+    url,
+    completed: ++completed,
+    total: uniqueUrls.length,
+  });
+  const outcomes = new Map<string, FetchOutcome>();
+  const drop = (
+    url: string,
+    reason: string,
+    score = 0,
+    signals?: SourceSignals
+  ) => {
+    emit({ type: 'source:failed', reason, ...progress(url) });
+    outcomes.set(url, {
+      url,
+      score,
+      signals: signals || { tier: policy.tier(url), affiliate: false },
+      reason,
+    });
+  };
+
+  const extracted = await Promise.all(
+    uniqueUrls.map(async (url) => {
+      try {
+        return await extractSource(url, {
+          cache,
+          fetcher,
+          limits: config.scrape,
+        });
+      } catch (error) {
+        drop(url, failure(error));
+      }
+    })
+  );
+
+  // The same page under another URL, or a copy of the same story, compared
+  // on the extracted text. Copies of a page kept in an earlier round are
+  // dropped, copies within this round are grouped best ranked first
+  const groups: Copy[][] = [];
+  extracted.forEach((source, i) => {
+    if (!source) return;
+    const url = uniqueUrls[i];
+    if (!source.markdown) return drop(url, 'empty');
+    const copy: Copy = {
+      url,
+      urls: [
+        ...found.get(canonicalizeUrl(url))!.urls,
+        source.metadata.canonicalUrl,
+      ].filter((other): other is string => !!other),
+      source,
+    };
+    const keys = copy.urls.map(canonicalizeUrl);
+    const isCopy = (other: { signature: Uint32Array }) =>
+      similarity(other.signature, source.signature) >=
+      config.sources.duplicateSimilarity;
+
+    const original =
+      keys.map((key) => byUrl.get(key)).find(Boolean) ||
+      signatures.find(isCopy)?.page;
+    if (original) {
+      outcomes.set(url, {
+        url,
+        score: 0,
+        signals: { tier: policy.tier(url), affiliate: false },
+        duplicateOf: original.url,
+        urls: copy.urls,
+      });
+      return;
+    }
+    const group = groups.find((copies) =>
+      copies.some(
+        (other) =>
+          other.urls.some((link) => keys.includes(canonicalizeUrl(link))) ||
+          isCopy(other.source)
+      )
+    );
+    if (group) group.push(copy);
+    else groups.push([copy]);
+  });
+
+  // Only one copy of each page is condensed, the next one if it's dropped
+  await Promise.all(
+    groups.map(async (copies) => {
+      for (const [i, { url, urls, source }] of copies.entries()) {
+        let result: WebContent;
+        try {
+          result = await condenseSource(source, { models, prompts, now });
+        } catch (error) {
+          drop(url, failure(error));
+          continue;
+        }
+        if (!result.content) {
+          drop(url, 'empty');
+          continue;
+        }
+        // Search engines often know the date when the page doesn't say
+        result = {
+          ...result,
+          publishedAt:
+            result.publishedAt ||
+            found.get(canonicalizeUrl(url))!.publishedAt,
+        };
+
+        const { score, signals } = scorePage(policy, result, now);
+        if (result.content.length < config.sources.minLength) {
+          drop(url, 'too short', score, signals);
+          continue;
+        }
+        if (score < config.sources.minScore) {
+          drop(url, 'low score', score, signals);
+          continue;
+        }
+        if (cutoff && result.publishedAt && result.publishedAt < cutoff) {
+          drop(url, `published before ${cutoff}`, score, signals);
+          continue;
+        }
+        outcomes.set(url, { url, score, signals, result, urls });
+        for (const copy of copies.slice(i + 1)) {
+          outcomes.set(copy.url, {
+            url: copy.url,
+            score: 0,
+            signals: { tier: policy.tier(copy.url), affiliate: false },
+            duplicateOf: url,
+            urls: copy.urls,
+          });
+        }
+        return;
+      }
+    })
+  );
+
+  // Recorded in rank order, so a copy always comes after the page it's
+  // merged into
+  const fetched: WebContent[] = [];
+  for (const [i, url] of uniqueUrls.entries()) {
+    const { score, signals, reason, result, duplicateOf, urls = [] } =
+      outcomes.get(url)!;
+    if (duplicateOf) {
+      const original = byUrl.get(canonicalizeUrl(duplicateOf))!;
+      addAlternates(original, urls);
+      urls.forEach((other) => byUrl.set(canonicalizeUrl(other), original));
+      const duplicate = `duplicate of ${original.url}`;
+      pages.push({
+        url,
+        round,
+        score,
+        signals,
+        kept: false,
+        reason: duplicate,
+      });
+      emit({ type: 'source:failed', reason: duplicate, ...progress(url) });
+      continue;
+    }
+    if (!result) {
+      pages.push({ url, round, score, signals, kept: false, reason });
+      continue;
+    }
+
+    const page: WebContent = { ...result, url };
+    addAlternates(page, urls);
+    urls.forEach((other) => byUrl.set(canonicalizeUrl(other), page));
+    signatures.push({ page, signature: extracted[i]!.signature });
+
+    pages.push({ url, round, score, signals, kept: true });
+    emit({ type: 'source:fetched', title: page.title, ...progress(url) });
+    fetched.push(page);
+  }
+
+  return {
+    queries: queries.map((query) => ({
+      ...query,
+      sources: uniqueUrls.filter(
+        (url) => found.get(canonicalizeUrl(url))!.query === query.query
+      ),
+    })),
+    fetched,
+  };
+}
+
+/** What a round taught us, and what it didn't */
+async function analyzeRound(
+  { topic, config, models, prompts }: RunContext,
+  fetched: WebContent[],
+  learnings: string[]
+): Promise<RoundAnalysis> {
+  const sources = fetched
+    .filter((content) => content.content)
+    .map(
+      (content) =>
+        `Source: ${content.title || content.url}\n` +
+        content.content.slice(0, ANALYSIS_CHARS_PER_SOURCE)
+    )
+    .join('\n\n---\n\n');
+
+  const profile = resolveProfile(config.research);
+  const { object } = await generateObject({
+    ...models.forPhase('analyze'),
+    schema: roundAnalysisSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('analyze', {
+          topic,
+          description: profile.description,
+          instructions: profile.analysisPrompt
+            ? `\n${profile.analysisPrompt}`
+            : '',
+        }),
+      },
+      {
+        role: 'user',
+        content: `Learned so far:\n${
+          learnings.map((learning) => `- ${learning}`).join('\n') || '(nothing)'
+        }\n\nNew sources:\n\n${sources}`,
+      },
+    ],
+  });
+  return object;
+}
+
+function formatLearnings(topic: string, rounds: ResearchRound[]) {
+  const lines = [`# Research: ${topic}`, ''];
+  for (const round of rounds) {
+    lines.push(`## Round ${round.depth}`, '', '### Queries', '');
+    for (const { query, gap } of round.queries) {
+      lines.push(gap ? `- ${query} (following up: ${gap})` : `- ${query}`);
+    }
+    if (round.learnings.length) {
+      lines.push('', '### Learnings', '');
+      round.learnings.forEach((learning) => lines.push(`- ${learning}`));
+    }
+    if (round.gaps.length) {
+      lines.push('', '### Open questions', '');
+      round.gaps.forEach((gap) => lines.push(`- ${gap}`));
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Searches in rounds. After each one but the last a model sums up what the
+ * new sources taught us and what's still missing, and the next round
+ * follows up on the gaps. Stops at `research.depth`, once
+ * `search.maxSources` pages are fetched, kept or not, when a round finds
+ * nothing new or when the model judges the topic covered.
+ */
+export async function collectSources(
+  ctx: RunContext,
+  queries: string[]
+): Promise<WebContent[]> {
+  const { topic, runDir, config, models, prompts, now, emit } = ctx;
+  const { depth, breadth } = config.research;
+  const maxSources = config.search.maxSources ?? Infinity;
+  const options = queryOptions(config, prompts, now);
+
+  const collection: Collection = {
+    policy: createDomainPolicy(config.sources),
+    seenUrls: new Set(),
+    excluded: new Set(),
+    byUrl: new Map(),
+    signatures: [],
+    candidates: [],
+    pages: [],
+  };
+  let fetched: WebContent[] = [];
+  const learnings: string[] = [];
+  const rounds: ResearchRound[] = [];
+  const asked = [...queries];
+  let next: Array<Omit<ResearchQuery, 'sources'>> = queries.map((query) => ({
+    query,
+  }));
+
+  for (let round = 1; round <= depth && next.length; round++) {
+    const result = await searchAndFetch(
+      ctx,
+      next,
+      // Pages dropped after fetching count too
+      { round, limit: maxSources - collection.seenUrls.size },
+      collection
+    );
+    fetched.push(...result.fetched);
+
+    // The analysis is only for finding gaps to follow up on, so it's
+    // skipped when there's no next round or nothing new to learn from
+    const last = round === depth || collection.seenUrls.size >= maxSources;
+    if (last || !result.fetched.length) {
+      rounds.push({
+        depth: round,
+        queries: result.queries,
+        learnings: [],
+        gaps: [],
+        sufficient: false,
+      });
+      break;
+    }
+
+    const analysis = await analyzeRound(ctx, result.fetched, learnings);
+    learnings.push(...analysis.learnings);
+    rounds.push({ depth: round, queries: result.queries, ...analysis });
+
+    const gaps = analysis.sufficient ? [] : analysis.gaps.slice(0, breadth);
+    next = await Promise.all(
+      gaps.map(async (gap, i) => ({
+        gap,
+        // Earlier queries give the query model context, like previous
+        // questions in a conversation
+        query: await generateQuery(
+          [...asked, `${topic}: ${gap}`].map((content, j) => ({
+            id: `${round}-${i}-${j}`,
+            role: 'user' as const,
+            content,
+          })),
+          models,
+          options
+        ),
+      }))
+    );
+    next = next.filter(
+      ({ query }, i) =>
+        !asked.includes(query) &&
+        next.findIndex((other) => other.query === query) === i
+    );
+    asked.push(...next.map(({ query }) => query));
+
+    emit({
+      type: 'round:analyzed',
+      depth: round,
+      learnings: analysis.learnings.length,
+      gaps: analysis.gaps.length,
+      followUps: next.length,
+      sufficient: analysis.sufficient,
+    });
+  }
+
+  // Trim to the best pages, keeping them in the order they were found
+  const { keep } = config.sources;
+  if (keep && fetched.length > keep) {
+    const ranked = collection.pages
+      .filter((page) => page.kept)
+      .sort((a, b) => b.score - a.score);
+    ranked.slice(keep).forEach((page) => {
+      page.kept = false;
+      page.reason = `not among the best ${keep}`;
+    });
+    const best = new Set(ranked.slice(0, keep).map(({ url }) => url));
+    fetched = fetched.filter((page) => best.has(page.url));
+  }
+  const contents = assignSourceIds(fetched);
+
+  // Write initial content to file
+  const initialContentPath = path.join(runDir, '1-initial-content.md');
+  await fs.writeFile(initialContentPath, combineContent(contents), 'utf-8');
+  emit({
+    type: 'artifact:written',
+    name: 'initial content',
+    path: initialContentPath,
+  });
+
+  const treePath = path.join(runDir, 'research-tree.json');
+  await fs.writeFile(
+    treePath,
+    JSON.stringify({ topic, rounds }, null, 2),
+    'utf-8'
+  );
+  emit({ type: 'artifact:written', name: 'research tree', path: treePath });
+
+  const learningsPath = path.join(runDir, 'learnings.md');
+  await fs.writeFile(learningsPath, formatLearnings(topic, rounds), 'utf-8');
+  emit({ type: 'artifact:written', name: 'learnings', path: learningsPath });
+
+  const scoresPath = path.join(runDir, 'source-scores.json');
+  await fs.writeFile(
+    scoresPath,
+    JSON.stringify(
+      { candidates: collection.candidates, pages: collection.pages },
+      null,
+      2
+    ),
+    'utf-8'
+  );
+  emit({ type: 'artifact:written', name: 'source scores', path: scoresPath });
+
+  return contents;
+}
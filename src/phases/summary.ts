@@ -0,0 +1,44 @@
+import { generateText } from 'ai';
+import { RunContext } from '../context.js';
+import { SectionDraft, SummaryDraft } from '../types.js';
+import { writingVariables } from '../profiles.js';
+
+export async function writeSummary(
+  { config, models, prompts }: RunContext,
+  sections: SectionDraft[]
+): Promise<SummaryDraft> {
+  const writing = writingVariables(config.writing);
+  const sectionText = sections.map((s) => s.content).join('\n\n');
+
+  // Step 5: Generate summary and conclusion in parallel
+  const [{ text: summary }, { text: conclusion }] = await Promise.all([
+    generateText({
+      ...models.forPhase('section'),
+      messages: [
+        {
+          role: 'system',
+          content: prompts.render('summary', writing),
+        },
+        {
+          role: 'user',
+          content: sectionText,
+        },
+      ],
+    }),
+    generateText({
+      ...models.forPhase('section'),
+      messages: [
+        {
+          role: 'system',
+          content: prompts.render('conclusion', writing),
+        },
+        {
+          role: 'user',
+          content: sectionText,
+        },
+      ],
+    }),
+  ]);
+
+  return { summary, conclusion };
+}
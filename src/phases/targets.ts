@@ -0,0 +1,152 @@
+import { generateObject } from 'ai';
+import { WritingProfile } from '../config.js';
+import { RunContext } from '../context.js';
+import { resolveWritingProfile, writingVariables } from '../profiles.js';
+import { BlogPost, blogPostSchema } from '../schemas.js';
+import { languageInstruction } from '../utils/language.js';
+import { countWords, fleschKincaidGrade } from '../utils/readability.js';
+
+// Sections within this share of the target length count as on target
+const LENGTH_TOLERANCE = 0.3;
+// Grade levels either side of the target reading level
+const GRADE_TOLERANCE = 2;
+// Revisions asked for before settling for the closest one
+const MAX_REVISIONS = 2;
+
+export interface TargetReport {
+  /** Words under each section heading, subsections included */
+  sections: Array<{ title: string; words: number }>;
+  /** Not checked for other languages than English, which it's based on */
+  grade?: number;
+  /** Where the post misses its profile, empty when it's on target */
+  issues: string[];
+}
+
+function sectionLengths(post: BlogPost) {
+  const sections: TargetReport['sections'] = [];
+  for (const block of post.content) {
+    if (block.type === 'heading' && (block.level ?? 2) <= 2) {
+      sections.push({ title: block.text, words: 0 });
+    } else if (block.type === 'paragraph' && sections.length) {
+      sections[sections.length - 1].words += countWords(block.text);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Measures `post` against the length, reading level and phrases `profile`
+ * asks for. The reading level counts English syllables, so it's only
+ * checked for posts written in English.
+ */
+export function checkTargets(
+  post: BlogPost,
+  profile: WritingProfile,
+  language = 'English'
+): TargetReport {
+  const sections = sectionLengths(post);
+  const paragraphs = post.content
+    .filter((block) => block.type === 'paragraph')
+    .map((block) => block.text);
+  const grade = languageInstruction(language)
+    ? undefined
+    : fleschKincaidGrade([post.summary, ...paragraphs].join('\n\n'));
+  const issues: string[] = [];
+
+  const target = profile.sectionWords;
+  for (const { title, words } of sections) {
+    if (Math.abs(words - target) > target * LENGTH_TOLERANCE) {
+      issues.push(
+        `"${title}" is ${words} words, ${
+          words > target ? 'trim' : 'expand'
+        } it to about ${target}`
+      );
+    }
+  }
+
+  if (
+    grade !== undefined &&
+    profile.readingLevel &&
+    Math.abs(grade - profile.readingLevel) > GRADE_TOLERANCE
+  ) {
+    issues.push(
+      `It reads at grade ${grade}, ${
+        grade > profile.readingLevel ? 'simplify' : 'raise'
+      } it to about grade ${profile.readingLevel}`
+    );
+  }
+
+  const text = [
+    post.title,
+    post.subtitle,
+    post.summary,
+    ...post.content.map((block) => block.text),
+  ]
+    .join('\n')
+    .toLowerCase();
+  const banned = profile.bannedPhrases.filter((phrase) =>
+    text.includes(phrase.toLowerCase())
+  );
+  if (banned.length) {
+    issues.push(
+      `It uses banned phrases: ${banned.map((phrase) => `"${phrase}"`).join(', ')}`
+    );
+  }
+
+  return { sections, grade, issues };
+}
+
+/**
+ * Checks the post against the writing profile and, while it misses, asks
+ * the model to trim, expand or reword it. Keeps whichever version misses
+ * the fewest targets.
+ */
+export async function fitTargets(
+  { config, models, prompts, emit }: RunContext,
+  post: BlogPost
+): Promise<BlogPost> {
+  const profile = resolveWritingProfile(config.writing);
+  const { language } = config.writing;
+  let best = { post, report: checkTargets(post, profile, language) };
+  let revisions = 0;
+
+  while (best.report.issues.length && revisions < MAX_REVISIONS) {
+    revisions++;
+    const { object: revised } = await generateObject({
+      ...models.forPhase('final'),
+      schema: blogPostSchema,
+      messages: [
+        {
+          role: 'system',
+          content: prompts.render('revise', {
+            ...writingVariables(config.writing),
+            issues: best.report.issues.map((issue) => `- ${issue}`).join('\n'),
+          }),
+        },
+        {
+          role: 'user',
+          content: JSON.stringify(best.post),
+        },
+      ],
+    });
+    const report = checkTargets(revised, profile, language);
+    if (report.issues.length >= best.report.issues.length) break;
+    best = { post: revised, report };
+  }
+
+  emit({
+    type: 'targets:checked',
+    grade: best.report.grade,
+    issues: best.report.issues.length,
+    revisions,
+  });
+  if (best.report.issues.length) {
+    emit({
+      type: 'warning',
+      message: `Post still misses its writing targets: ${best.report.issues.join(
+        '; '
+      )}`,
+    });
+  }
+  return best.post;
+}
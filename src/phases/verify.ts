@@ -0,0 +1,275 @@
+import { generateObject, generateText } from 'ai';
+import fs from 'fs/promises';
+import path from 'path';
+import { pruneReferences } from '../citations.js';
+import { RunContext } from '../context.js';
+import { buildChunkIndex, ChunkIndex, retrieveChunks } from '../retrieval.js';
+import { BlogPost, claimsSchema, verdictsSchema } from '../schemas.js';
+import {
+  ClaimVerdict,
+  VerificationReport,
+  VerifiedClaim,
+  WebContent,
+} from '../types.js';
+import { chunk } from '../utils.js';
+
+const INLINE_MARKERS: Record<Exclude<ClaimVerdict, 'supported'>, string> = {
+  unsupported: '[unverified]',
+  contradicted: '[disputed]',
+};
+
+async function checkParagraph(
+  { models, prompts, cache, config }: RunContext,
+  index: ChunkIndex,
+  text: string,
+  block: number
+): Promise<VerifiedClaim[]> {
+  const { object } = await generateObject({
+    ...models.forPhase('verify'),
+    schema: claimsSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('claims'),
+      },
+      { role: 'user', content: text },
+    ],
+  });
+  if (!object.claims.length) return [];
+
+  const passages = await Promise.all(
+    object.claims.map(({ claim }) =>
+      retrieveChunks(index, claim, {
+        models,
+        cache,
+        topK: config.verification.topK,
+      })
+    )
+  );
+
+  const { object: judged } = await generateObject({
+    ...models.forPhase('verify'),
+    schema: verdictsSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('judge'),
+      },
+      {
+        role: 'user',
+        content: object.claims
+          .map(
+            ({ claim }, i) =>
+              `Claim ${i + 1}: ${claim}\n\nPassages:\n${passages[i]
+                .map((passage) => `[${passage.sourceId}] ${passage.text}`)
+                .join('\n\n')}`
+          )
+          .join('\n\n---\n\n'),
+      },
+    ],
+  });
+
+  return object.claims.map(({ claim, quote }, i) => {
+    const verdict = judged.verdicts.find((v) => v.claim_index === i + 1);
+    const evidence = passages[i]
+      .filter((passage) => verdict?.evidence_ids.includes(passage.sourceId!))
+      .map((passage) => passage.url);
+
+    return {
+      block,
+      claim,
+      quote,
+      // A claim the judge skipped hasn't been shown to be supported
+      verdict: verdict?.verdict || 'unsupported',
+      explanation: verdict?.explanation || 'Not judged',
+      evidence: Array.from(new Set(evidence)),
+    };
+  });
+}
+
+async function softenParagraph(
+  { models, prompts }: RunContext,
+  text: string,
+  claims: VerifiedClaim[]
+) {
+  const { text: softened } = await generateText({
+    ...models.forPhase('verify'),
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('soften'),
+      },
+      {
+        role: 'user',
+        content: `${text}\n\nClaims:\n${claims
+          .map((claim) => `- (${claim.verdict}) ${claim.quote}`)
+          .join('\n')}`,
+      },
+    ],
+  });
+  return softened.trim();
+}
+
+function markParagraph(text: string, claims: VerifiedClaim[]) {
+  return claims.reduce((marked, claim) => {
+    const marker =
+      INLINE_MARKERS[claim.verdict as keyof typeof INLINE_MARKERS];
+    if (!marker || !marked.includes(claim.quote)) return marked;
+    return marked.replace(claim.quote, `${claim.quote} ${marker}`);
+  }, text);
+}
+
+const splitSentences = (text: string) => text.split(/(?<=[.!?])\s+/);
+
+// Footnote markers and spacing differ between a quote and the text
+const normalizeSentence = (text: string) =>
+  text
+    .replace(/\[\^\d+\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+/**
+ * Drops the sentences making each claim: those containing its quote, or
+ * equal to one of the quote's sentences when it spans several
+ */
+function removeClaims(text: string, claims: VerifiedClaim[]) {
+  const quotes = claims.map((claim) => ({
+    quote: normalizeSentence(claim.quote),
+    sentences: new Set(splitSentences(claim.quote).map(normalizeSentence)),
+  }));
+  return splitSentences(text)
+    .filter((sentence) => {
+      const normalized = normalizeSentence(sentence);
+      return !quotes.some(
+        ({ quote, sentences }) =>
+          (quote && normalized.includes(quote)) || sentences.has(normalized)
+      );
+    })
+    .join(' ');
+}
+
+export function formatVerificationReport({
+  mode,
+  claims,
+}: VerificationReport) {
+  const count = (verdict: ClaimVerdict) =>
+    claims.filter((claim) => claim.verdict === verdict).length;
+  const flagged = claims.filter((claim) => claim.verdict !== 'supported');
+
+  const lines = [
+    '# Verification Report',
+    '',
+    `Mode: ${mode}`,
+    '',
+    `${claims.length} claims checked: ${count('supported')} supported, ` +
+      `${count('unsupported')} unsupported, ` +
+      `${count('contradicted')} contradicted.`,
+    '',
+  ];
+
+  if (!flagged.length) {
+    lines.push('Every claim is supported by the sources.');
+  } else {
+    lines.push('## Flagged Claims', '');
+    for (const claim of flagged) {
+      lines.push(`- **${claim.verdict}**: ${claim.claim}`);
+      lines.push(`  > ${claim.quote}`);
+      lines.push(`  ${claim.explanation}`);
+      if (claim.evidence.length) {
+        lines.push(`  Evidence: ${claim.evidence.join(', ')}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Fact-checks every paragraph of the post against the scraped sources and
+ * marks, softens or removes claims the sources don't back up.
+ */
+export async function verifyPost(
+  ctx: RunContext,
+  post: BlogPost,
+  contents: WebContent[]
+): Promise<{ post: BlogPost; report: VerificationReport }> {
+  const { runDir, models, cache, config, emit } = ctx;
+  const { mode } = config.verification;
+  if (mode === 'off') return { post, report: { mode, claims: [] } };
+
+  const index = await buildChunkIndex(contents, {
+    models,
+    cache,
+    chunkSize: config.retrieval.chunkSize,
+    overlap: config.retrieval.overlap,
+  });
+
+  const paragraphs = post.content
+    .map((block, i) => ({ block, i }))
+    .filter(({ block }) => block.type === 'paragraph');
+
+  const claims: VerifiedClaim[] = [];
+  let checked = 0;
+  for (const batch of chunk(paragraphs, 3)) {
+    const results = await Promise.all(
+      batch.map(({ block, i }) => checkParagraph(ctx, index, block.text, i))
+    );
+    claims.push(...results.flat());
+    checked += batch.length;
+    emit({
+      type: 'claims:checked',
+      claims: claims.length,
+      completed: checked,
+      total: paragraphs.length,
+    });
+  }
+
+  const content = await Promise.all(
+    post.content.map(async (block, i) => {
+      const flagged = claims.filter(
+        (claim) => claim.block === i && claim.verdict !== 'supported'
+      );
+      if (!flagged.length) return block;
+
+      const text =
+        mode === 'soften'
+          ? await softenParagraph(ctx, block.text, flagged)
+          : mode === 'remove'
+            ? removeClaims(block.text, flagged)
+            : markParagraph(block.text, flagged);
+      return { ...block, text };
+    })
+  );
+
+  const report: VerificationReport = { mode, claims };
+  await fs.writeFile(
+    path.join(runDir, 'verification.json'),
+    JSON.stringify(report, null, 2),
+    'utf-8'
+  );
+  const reportPath = path.join(runDir, 'verification.md');
+  await fs.writeFile(reportPath, formatVerificationReport(report), 'utf-8');
+
+  emit({
+    type: 'verification:summary',
+    checked: claims.length,
+    flagged: claims.filter((c) => c.verdict !== 'supported').length,
+  });
+  emit({
+    type: 'artifact:written',
+    name: 'verification report',
+    path: reportPath,
+  });
+
+  // Drop the references only rewritten claims cited, then the paragraphs
+  // that lost all their content
+  const pruned = pruneReferences({ ...post, content }, post);
+  return {
+    post: {
+      ...pruned,
+      content: pruned.content.filter((block) => block.text.trim()),
+    },
+    report,
+  };
+}
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BlogPost } from '../schemas.js';
+import { renderHtml } from './html.js';
+import { renderJson } from './json.js';
+import { renderMarkdown, renderMdx } from './markdown.js';
+import { RenderOptions } from './options.js';
+import { renderText } from './text.js';
+
+export interface PostRenderer {
+  /** Shown in help and artifact names */
+  description: string;
+  extension: string;
+  /** Pure, so the same post and options give the same output */
+  render(post: BlogPost, options: RenderOptions): string;
+}
+
+export const postRenderers = {
+  md: {
+    description: 'markdown with footnotes',
+    extension: 'md',
+    render: renderMarkdown,
+  },
+  mdx: {
+    description: 'MDX with YAML frontmatter',
+    extension: 'mdx',
+    render: renderMdx,
+  },
+  html: {
+    description: 'standalone HTML page',
+    extension: 'html',
+    render: renderHtml,
+  },
+  json: {
+    description: 'JSON export',
+    extension: 'json',
+    render: renderJson,
+  },
+  text: {
+    description: 'plain text',
+    extension: 'txt',
+    render: renderText,
+  },
+} satisfies Record<string, PostRenderer>;
+
+export type PostFormat = keyof typeof postRenderers;
+export const postFormats = Object.keys(postRenderers) as PostFormat[];
+
+export function renderPost(
+  post: BlogPost,
+  format: PostFormat,
+  options: RenderOptions
+): string {
+  return postRenderers[format].render(post, options);
+}
+
+/** Writes `<dir>/post.<extension>` and returns its path */
+export async function writePostFormat(
+  post: BlogPost,
+  format: PostFormat,
+  dir: string,
+  options: RenderOptions
+): Promise<string> {
+  const outputPath = path.join(dir, `post.${postRenderers[format].extension}`);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(outputPath, renderPost(post, format, options), 'utf-8');
+  return outputPath;
+}
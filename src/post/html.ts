@@ -0,0 +1,112 @@
+import { BlogPost } from '../schemas.js';
+import { sanitizeFilename } from '../utils/filename.js';
+import { footnotedText } from './markdown.js';
+import { RenderOptions } from './options.js';
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) links become anchors, so a model can't inject javascript:
+const safeUrl = (url: string) => (/^https?:\/\//i.test(url) ? url : '#');
+
+/**
+ * Escapes a paragraph, then turns the little markdown the writers use
+ * (bold, italics, code, links) and `[^n]` footnote markers into HTML
+ */
+function inlineHtml(text: string) {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(
+      /\[([^\]^][^\]]*)\]\(([^)\s]+)\)/g,
+      (_, label: string, url: string) =>
+        `<a href="${safeUrl(url)}">${label}</a>`
+    )
+    .replace(
+      /\[\^(\d+)\]/g,
+      (_, n: string) =>
+        `<sup class="citation"><a href="#ref-${n}">[${n}]</a></sup>`
+    );
+}
+
+const STYLE = `body{font-family:system-ui,sans-serif;line-height:1.6;max-width:42rem;margin:2rem auto;padding:0 1rem;color:#222}
+.subtitle{font-size:1.2rem;color:#555}.summary{font-weight:500}
+.meta{color:#666;font-size:.9rem}sup.citation a{text-decoration:none}
+.references li{margin-bottom:.5rem}.references .excerpt{color:#666;font-size:.9rem}`;
+
+// Dates of references come from scraped pages, so they're escaped too
+function renderTime(date: string) {
+  const escaped = escapeHtml(date);
+  return `<time datetime="${escaped}">${escaped}</time>`;
+}
+
+function renderReference(ref: BlogPost['references'][number], i: number) {
+  const details = [
+    escapeHtml(ref.publisher || ref.site),
+    ref.author && escapeHtml(ref.author),
+    ref.published && renderTime(ref.published),
+  ].filter(Boolean);
+  const excerpt = ref.excerpt
+    ? `<br><span class="excerpt">${escapeHtml(ref.excerpt)}</span>`
+    : '';
+  return `<li id="ref-${i + 1}"><a href="${safeUrl(ref.url)}">${escapeHtml(
+    ref.title
+  )}</a> — ${details.join(', ')}${excerpt}</li>`;
+}
+
+/** A standalone page: no scripts, no external styles */
+export function renderHtml(post: BlogPost, options: RenderOptions): string {
+  const body = post.content
+    .map((block) => {
+      if (block.type === 'heading') {
+        const level = Math.min(Math.max(block.level || 2, 2), 6);
+        const id = sanitizeFilename(block.text);
+        return `<h${level} id="${id}"><a href="#${id}">${escapeHtml(
+          block.text
+        )}</a></h${level}>`;
+      }
+      return `<p>${inlineHtml(footnotedText(post, block))}</p>`;
+    })
+    .join('\n');
+
+  const { metadata } = post;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(post.title)}</title>
+<meta name="description" content="${escapeHtml(post.subtitle)}">
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+<article>
+<header>
+<h1>${escapeHtml(post.title)}</h1>
+<p class="subtitle">${escapeHtml(post.subtitle)}</p>
+<p class="meta">${renderTime(options.date)} · ${
+    metadata.reading_time
+  } min read</p>
+</header>
+<p class="summary">${inlineHtml(post.summary)}</p>
+${body}
+<section class="references" id="references">
+<h2>References</h2>
+<ol>
+${post.references.map(renderReference).join('\n')}
+</ol>
+</section>
+</article>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,52 @@
+import { BlogPost } from '../schemas.js';
+import { RenderOptions } from './options.js';
+
+// Bumped whenever a field is renamed or removed, never for additions
+const JSON_EXPORT_VERSION = 1;
+
+/**
+ * The post for other programs. Fields are written in a fixed order and
+ * every optional reference field is present, null when unknown, so
+ * diffs and snapshots only change when the content does.
+ */
+export function renderJson(post: BlogPost, options: RenderOptions): string {
+  const data = {
+    version: JSON_EXPORT_VERSION,
+    topic: options.topic,
+    slug: options.slug,
+    date: options.date,
+    title: post.title,
+    subtitle: post.subtitle,
+    summary: post.summary,
+    tags: post.metadata.tags || [],
+    metadata: {
+      readingTime: post.metadata.reading_time,
+      technicalLevel: post.metadata.technical_level,
+      businessImpact: post.metadata.business_impact,
+    },
+    content: post.content.map((block) =>
+      block.type === 'heading'
+        ? { type: block.type, level: block.level || 2, text: block.text }
+        : {
+            type: block.type,
+            text: block.text,
+            citations: (block.citations || []).map((citation) => ({
+              sourceId: citation.source_id,
+              url: citation.url,
+              text: citation.text,
+            })),
+          }
+    ),
+    references: post.references.map((ref) => ({
+      url: ref.url,
+      title: ref.title,
+      site: ref.site,
+      author: ref.author ?? null,
+      publisher: ref.publisher ?? null,
+      published: ref.published ?? null,
+      accessed: ref.accessed ?? null,
+      excerpt: ref.excerpt ?? null,
+    })),
+  };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
@@ -0,0 +1,97 @@
+import { formatFootnotes } from '../bibliography.js';
+import { BlogPost } from '../schemas.js';
+import { RenderOptions } from './options.js';
+
+type Block = BlogPost['content'][number];
+
+/**
+ * A paragraph's text with a `[^n]` marker after each cited claim that
+ * doesn't have one yet, numbered by its reference so the footnotes match
+ * the reference list
+ */
+export function footnotedText(post: BlogPost, block: Block) {
+  let text = block.text;
+  for (const citation of block.citations || []) {
+    const number =
+      post.references.findIndex((ref) => ref.url === citation.url) + 1;
+    const marker = `[^${number}]`;
+    if (!number || text.includes(marker)) continue;
+    text = text.replace(citation.text, `${citation.text}${marker}`);
+  }
+  return text;
+}
+
+function renderBody(post: BlogPost, escape = (text: string) => text) {
+  return post.content
+    .map((block) =>
+      block.type === 'heading'
+        ? `${'#'.repeat(block.level || 2)} ${escape(block.text)}\n`
+        : escape(footnotedText(post, block))
+    )
+    .join('\n\n');
+}
+
+function renderFooter(post: BlogPost, escape = (text: string) => text) {
+  const { reading_time, technical_level, business_impact } = post.metadata;
+  // Only the ratings the writing profile keeps
+  const meta = [
+    `*Reading time: ${reading_time} minutes*`,
+    technical_level && `*Technical level: ${technical_level}/5*`,
+    business_impact && `*Business impact: ${business_impact}/5*`,
+  ].filter(Boolean);
+  return `---
+
+${meta.join('  \n')}
+
+## References
+
+${escape(formatFootnotes(post.references))}
+`;
+}
+
+/** The post as one markdown document, footnotes included */
+export function renderMarkdown(post: BlogPost): string {
+  return `# ${post.title}
+
+${post.subtitle}
+
+${post.summary}
+
+${renderBody(post)}
+
+${renderFooter(post)}`;
+}
+
+// Strings are written as JSON, which is valid double-quoted YAML
+const yaml = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Markdown with YAML frontmatter, the shape Hugo, Astro and Jekyll expect.
+ * The title and subtitle move to the frontmatter, where layouts read them.
+ */
+export function renderFrontmatter(post: BlogPost, options: RenderOptions) {
+  return [
+    '---',
+    `title: ${yaml(post.title)}`,
+    `subtitle: ${yaml(post.subtitle)}`,
+    `description: ${yaml(post.summary.replace(/\s*\[\^\d+\]/g, ''))}`,
+    `slug: ${yaml(options.slug)}`,
+    `date: ${options.date}`,
+    `tags: [${(post.metadata.tags || []).map(yaml).join(', ')}]`,
+    `readingTime: ${post.metadata.reading_time}`,
+    '---',
+  ].join('\n');
+}
+
+// Braces open expressions and < opens tags in MDX, even in prose
+const escapeMdx = (text: string) => text.replace(/[{}<]/g, '\\$&');
+
+export function renderMdx(post: BlogPost, options: RenderOptions): string {
+  return `${renderFrontmatter(post, options)}
+
+${escapeMdx(post.summary)}
+
+${renderBody(post, escapeMdx)}
+
+${renderFooter(post, escapeMdx)}`;
+}
@@ -0,0 +1,26 @@
+import { format } from 'date-fns/format';
+import { BlogPost } from '../schemas.js';
+import { sanitizeFilename } from '../utils/filename.js';
+
+/**
+ * What a renderer needs besides the post. Passed in rather than read from
+ * the clock, so the same post always renders the same way.
+ */
+export interface RenderOptions {
+  topic: string;
+  /** Publication date, YYYY-MM-DD */
+  date: string;
+  /** URL-safe name of the post */
+  slug: string;
+}
+
+export function renderOptions(
+  post: BlogPost,
+  { topic, date = new Date() }: { topic: string; date?: Date }
+): RenderOptions {
+  return {
+    topic,
+    date: format(date, 'yyyy-MM-dd'),
+    slug: sanitizeFilename(post.title) || sanitizeFilename(topic),
+  };
+}
@@ -0,0 +1,40 @@
+import { BlogPost } from '../schemas.js';
+import { footnotedText } from './markdown.js';
+
+/** Markdown markup off, footnote markers as [n] */
+function plain(text: string) {
+  return text
+    .replace(/\[\^(\d+)\]/g, '[$1]')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__|\*|`)(.+?)\1/g, '$2');
+}
+
+const underline = (text: string, char: string) =>
+  `${text}\n${char.repeat(text.length)}`;
+
+/** For email, plain-text feeds and anywhere markup would show */
+export function renderText(post: BlogPost): string {
+  const body = post.content
+    .map((block) =>
+      block.type === 'heading'
+        ? underline(plain(block.text), '-')
+        : plain(footnotedText(post, block))
+    )
+    .join('\n\n');
+  const references = post.references
+    .map((ref, i) => `[${i + 1}] ${ref.title}, ${ref.site}\n    ${ref.url}`)
+    .join('\n');
+
+  return `${underline(post.title, '=')}
+
+${post.subtitle}
+
+${plain(post.summary)}
+
+${body}
+
+${underline('References', '-')}
+
+${references}
+`;
+}
@@ -0,0 +1,199 @@
+import { Config, ResearchProfile, WritingProfile } from './config.js';
+import { languageInstruction } from './utils/language.js';
+import { UsageError } from './errors.js';
+
+/**
+ * What to research about a topic, depending on what it's being researched
+ * for. Each angle is appended to the topic to make one first-round query.
+ */
+export const researchProfiles: Record<string, ResearchProfile> = {
+  technical: {
+    description: 'a technical blog post',
+    angles: [
+      'business impact and use cases',
+      'technical implementation details',
+      'market trends and analysis',
+      'challenges and limitations',
+      'recent news and developments',
+      'expert opinions and case studies',
+    ],
+    queries: 3,
+  },
+  business: {
+    description: 'a business-focused article',
+    angles: [
+      'market size and growth',
+      'business models and revenue',
+      'adoption and customer use cases',
+      'competitive landscape',
+      'costs, return on investment and risks',
+      'regulation and strategy',
+    ],
+    queries: 4,
+    queryPrompt:
+      'Prefer queries that surface industry reports, earnings, analyst coverage and case studies.',
+  },
+  academic: {
+    description: 'an overview of the research literature',
+    angles: [
+      'foundational theory and definitions',
+      'key studies and findings',
+      'methods and datasets',
+      'open problems and debates',
+      'recent papers and preprints',
+      'history of the field',
+    ],
+    queries: 4,
+    queryPrompt:
+      'Prefer queries that surface peer-reviewed papers, preprints, surveys and university sources, e.g. by including words like "study", "paper" or "review".',
+    analysisPrompt:
+      'Tie each learning to the study it comes from, and note where findings disagree.',
+  },
+  news: {
+    description: 'a news story',
+    angles: [
+      'latest announcements and events',
+      'timeline of developments',
+      'reactions from key people and organizations',
+      'analysis and implications',
+      'what happens next',
+    ],
+    queries: 3,
+    queryPrompt:
+      'Prefer queries that surface recent reporting, and include the month or year when recency matters.',
+    analysisPrompt:
+      'Note when things happened, and treat claims only one outlet reports as unconfirmed.',
+  },
+  comparison: {
+    description: 'a product comparison',
+    angles: [
+      'features and capabilities',
+      'pricing and plans',
+      'performance and benchmarks',
+      'user reviews and complaints',
+      'alternatives and competitors',
+      'integrations and migration',
+    ],
+    queries: 4,
+    queryPrompt:
+      'Prefer queries that surface official documentation, pricing pages, independent benchmarks and hands-on reviews.',
+    analysisPrompt:
+      'Keep each learning tied to the product it is about, and flag claims that only come from the vendor.',
+  },
+};
+
+/** The configured profile, custom ones first. Throws on an unknown name. */
+export function resolveProfile({
+  profile,
+  profiles,
+}: Config['research']): ResearchProfile {
+  const resolved = profiles[profile] || researchProfiles[profile];
+  if (!resolved) {
+    const names = [
+      ...Object.keys(researchProfiles),
+      ...Object.keys(profiles),
+    ].join(', ');
+    throw new UsageError(
+      `Unknown research profile "${profile}", pick from ${names}`
+    );
+  }
+  return resolved;
+}
+
+// Filler that reads as generated, whoever the post is for
+const CLICHES = [
+  'game-changer',
+  'game changer',
+  'revolutionize',
+  'unlock the power',
+  "in today's fast-paced world",
+  'delve into',
+  'a testament to',
+  'navigate the landscape',
+];
+
+/**
+ * Who a post is written for, and how. Each profile sets the audience and
+ * tone of every writing prompt, and the targets the finished post is
+ * checked against.
+ */
+export const writingProfiles: Record<string, WritingProfile> = {
+  engineers: {
+    description: 'a technical blog post',
+    audience: 'engineers and technical leads',
+    tone: 'precise and practical, showing how things work',
+    focus: 'practical insights and business value',
+    sectionWords: 350,
+    readingLevel: 12,
+    bannedPhrases: CLICHES,
+    ratings: ['technical_level', 'business_impact'],
+  },
+  executives: {
+    description: 'a briefing for executives',
+    audience: 'executives and other decision makers',
+    tone: 'confident and concise, leading with the conclusion',
+    focus: 'business impact, costs, risks and the decisions to make',
+    sectionWords: 200,
+    readingLevel: 10,
+    bannedPhrases: [...CLICHES, 'synergy', 'low-hanging fruit'],
+    ratings: ['business_impact'],
+  },
+  general: {
+    description: 'an explainer for a general audience',
+    audience: 'curious readers with no background in the field',
+    tone: 'friendly and clear, explaining jargon where it first appears',
+    focus: 'why it matters and how it affects people',
+    sectionWords: 250,
+    readingLevel: 8,
+    bannedPhrases: CLICHES,
+    ratings: [],
+  },
+};
+
+/** The configured writing profile, custom ones first. Throws on an unknown name. */
+export function resolveWritingProfile({
+  profile,
+  profiles,
+}: Config['writing']): WritingProfile {
+  const resolved = profiles[profile] || writingProfiles[profile];
+  if (!resolved) {
+    const names = [
+      ...Object.keys(writingProfiles),
+      ...Object.keys(profiles),
+    ].join(', ');
+    throw new UsageError(`Unknown writing profile "${profile}", pick from ${names}`);
+  }
+  return resolved;
+}
+
+/** Lines for a writing prompt setting the audience, tone and targets */
+export function styleInstruction(profile: WritingProfile) {
+  const lines = [
+    `Write for ${profile.audience}. Tone: ${profile.tone}.`,
+    `Aim for about ${profile.sectionWords} words per section.`,
+  ];
+  if (profile.readingLevel) {
+    lines.push(
+      `Write at about a grade ${profile.readingLevel} reading level (Flesch-Kincaid).`
+    );
+  }
+  if (profile.bannedPhrases.length) {
+    lines.push(
+      `Never use these phrases: ${profile.bannedPhrases
+        .map((phrase) => `"${phrase}"`)
+        .join(', ')}.`
+    );
+  }
+  return `\n${lines.join('\n')}`;
+}
+
+/** The variables every writing prompt takes */
+export function writingVariables(writing: Config['writing']) {
+  const profile = resolveWritingProfile(writing);
+  return {
+    post: profile.description,
+    focus: profile.focus,
+    style: styleInstruction(profile),
+    language: languageInstruction(writing.language),
+  };
+}
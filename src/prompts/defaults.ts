@@ -0,0 +1,193 @@
+// The prompts the pipeline ships with. Any of them can be replaced by a
+// file in the project's prompts directory, see `loadPromptOverrides`.
+//
+// Bump a prompt's version whenever its text changes, so runs made with the
+// old and new wording can be told apart. Variables that only sometimes
+// apply (`language`, `instructions`) are either empty or start with a
+// newline, so they can sit at the end of a line.
+
+export interface PromptTemplate {
+  version: number;
+  /** What the prompt is for, shown to whoever overrides it */
+  description: string;
+  /** The names `{{name}}` placeholders may use */
+  variables: readonly string[];
+  template: string;
+}
+
+export const defaultPrompts = {
+  query: {
+    version: 1,
+    description: 'System prompt of the search query model',
+    variables: ['today', 'instructions'],
+    template:
+      'You are tasked with generating web search queries. Give me an appropriate query to answer my question for google search. Answer with only the query. Today is {{today}}{{instructions}}',
+  },
+  'query-examples': {
+    version: 1,
+    description:
+      'Example conversation for the query model. Turns alternate between user and assistant and are separated by lines of ---',
+    variables: ['today', 'yesterday'],
+    template: `Previous Questions:
+- Who is the president of France?
+
+Current Question: What about Mexico?
+---
+President of Mexico
+---
+Previous questions:
+- When is the next formula 1 grand prix?
+
+Current Question: Where is it being hosted ?
+---
+location of next formula 1 grand prix
+---
+Current Question: What type of printhead does the Epson F2270 DTG printer use?
+---
+Epson F2270 DTG printer printhead
+---
+What were the news yesterday ?
+---
+news {{yesterday}}
+---
+What is the current weather in Paris ?
+---
+weather in Paris {{today}}`,
+  },
+  angles: {
+    version: 1,
+    description: 'Asks for research angles when `research.autoAngles` is on',
+    variables: ['count', 'description', 'example'],
+    template:
+      'List {{count}} distinct angles to research a topic from, for {{description}}. Each angle is a short phrase that is appended to the topic to make a search question, like "{{example}}". Cover different aspects of this particular topic rather than rephrasing one.',
+  },
+  condense: {
+    version: 1,
+    description: 'Condenses every fetched page',
+    variables: [],
+    template:
+      'Extract the main information from the text, removing unnecessary details, advertisements, and boilerplate content. Maintain the core message and important details while making the text more concise. Keep the markdown structure: headings, lists, tables and code blocks. Return only the processed content without any additional commentary.',
+  },
+  analyze: {
+    version: 1,
+    description: 'Sums up a research round and lists the gaps left',
+    variables: ['topic', 'description', 'instructions'],
+    template:
+      'You are researching {{topic}} for {{description}}. Extract the new learnings from these sources, then list the open questions and knowledge gaps that remain, given everything learned so far. Only judge coverage sufficient when another round of searching would add little.{{instructions}}',
+  },
+  outline: {
+    version: 2,
+    description: 'Plans the post from the research',
+    variables: ['post', 'topic', 'style', 'language'],
+    template:
+      'Create an outline for {{post}} about {{topic}}. Include a compelling title and key points to cover in each section.{{style}}{{language}}',
+  },
+  section: {
+    version: 2,
+    description: 'Writes one section from the excerpts retrieved for it',
+    variables: ['post', 'focus', 'keyPoints', 'style', 'language'],
+    template: `Write a section for {{post}}. Focus on {{focus}}.
+Include specific examples and details where relevant.
+Key points to cover: {{keyPoints}}
+Each reference excerpt starts with its source ID. Cite the source of every fact right after it, e.g. [S3]. Only use IDs that appear in the excerpts.
+Each excerpt also says when its source was published. Prefer the most recent information, say when a figure dates from if it may have changed since, and when sources disagree trust the newer one unless the older one is more authoritative.{{style}}{{language}}`,
+  },
+  summary: {
+    version: 2,
+    description: 'Writes the executive summary from the sections',
+    variables: ['post', 'focus', 'style', 'language'],
+    template:
+      'Write a compelling executive summary for {{post}}. Focus on the key takeaways and {{focus}}.{{style}}{{language}}',
+  },
+  conclusion: {
+    version: 2,
+    description: 'Writes the conclusion from the sections',
+    variables: ['post', 'style', 'language'],
+    template:
+      'Write a strong conclusion for {{post}}. Summarize key points and provide clear next steps or recommendations.{{style}}{{language}}',
+  },
+  polish: {
+    version: 2,
+    description:
+      'Improves one part of the post: title, summary, a section or the conclusion',
+    variables: ['part', 'post', 'focus', 'style', 'language'],
+    template: `Improve this {{part}} section of {{post}}. Focus on:
+1. A clear focus on {{focus}}
+2. Accuracy
+3. Engaging style
+4. Actionable insights
+5. Keep every [S1] style source citation, and fill in the citations field with the source_id and URL of each one. Only cite sources from the list below{{style}}{{language}}`,
+  },
+  combine: {
+    version: 2,
+    description: 'Joins the polished parts into one post',
+    variables: ['post', 'style', 'language'],
+    template:
+      'Combine these improved sections into {{post}} that reads as one, maintaining all improvements and [S1] style citations.{{style}}{{language}}',
+  },
+  final: {
+    version: 2,
+    description: 'Reviews the flow of the whole post',
+    variables: ['post', 'style', 'language'],
+    template: `Review this draft of {{post}} and improve its flow and readability. Make sure:
+1. Sections transition smoothly
+2. Ideas build on each other logically
+3. The narrative is compelling
+4. Citations are properly placed
+Keep all technical content and [S1] style citations intact.{{style}}{{language}}`,
+  },
+  revise: {
+    version: 1,
+    description:
+      "Fixes a finished post that misses its writing profile's length, reading level or banned phrases",
+    variables: ['post', 'issues', 'style', 'language'],
+    template: `This draft of {{post}} misses its writing targets:
+{{issues}}
+Revise it to fix them. Trim sections that run long and expand short ones with more explanation and examples of what they already say. Change sentence length and word choice to reach the reading level, and reword anything using a banned phrase. Do not add new facts, and keep the headings and every [S1] style citation.{{style}}{{language}}`,
+  },
+  claims: {
+    version: 1,
+    description: 'Pulls the factual claims out of a paragraph for checking',
+    variables: [],
+    template:
+      'Extract every factual claim from this paragraph as an atomic statement, along with the exact text that makes it. Ignore footnote markers like [^1].',
+  },
+  judge: {
+    version: 1,
+    description: 'Judges each claim against the passages retrieved for it',
+    variables: [],
+    template: `You are a strict fact checker. For each claim, decide using ONLY the passages listed under it:
+- supported: a passage states the claim, including any numbers, dates and names
+- contradicted: a passage states something incompatible with the claim
+- unsupported: the passages don't settle it
+Do not use outside knowledge.`,
+  },
+  soften: {
+    version: 1,
+    description: 'Rewrites a paragraph around claims that failed checking',
+    variables: [],
+    template:
+      'Rewrite this paragraph so it no longer states the listed claims as fact. Remove contradicted claims entirely. Hedge unsupported claims or remove them if hedging would be awkward. Keep everything else, including footnote markers like [^1], unchanged. Return only the paragraph.',
+  },
+  thread: {
+    version: 1,
+    description: 'Turns the post or the research into a thread',
+    variables: ['topic', 'maxLength', 'language'],
+    template: `Turn this research into a Twitter/X thread about {{topic}}.
+1. Start with a hook tweet that makes people want to read on
+2. Give each body tweet one concrete insight, statistic or example
+3. Attach a source URL to the tweets whose claims come from it, using only the URLs provided
+4. End with a closing tweet summarizing the takeaway
+Keep every tweet under {{maxLength}} characters, do not number the tweets and do not paste links into the text.{{language}}`,
+  },
+  resplit: {
+    version: 1,
+    description: 'Splits a tweet that came out too long',
+    variables: ['budget'],
+    template:
+      'This tweet is too long. Rewrite it as two or more consecutive tweets that read naturally in a thread. Each tweet must be at most {{budget}} characters. Do not add numbering, hashtags or links. Keep every fact.',
+  },
+} satisfies Record<string, PromptTemplate>;
+
+export type PromptId = keyof typeof defaultPrompts;
+export const promptIds = Object.keys(defaultPrompts) as PromptId[];
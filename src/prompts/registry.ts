@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { PromptId, defaultPrompts, promptIds } from './defaults.js';
+import { UsageError } from '../errors.js';
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface PromptOverride {
+  version: number;
+  template: string;
+  /** File the template was read from */
+  source: string;
+}
+
+export type PromptOverrides = Partial<Record<PromptId, PromptOverride>>;
+
+/** Which template a prompt came from, as recorded in `prompts.json` */
+export interface PromptUsage {
+  id: PromptId;
+  version: number;
+  /** First 12 hex digits of the template's SHA-256 */
+  hash: string;
+  /** `default`, or the override file */
+  source: string;
+}
+
+export interface PromptRegistry {
+  /** The prompt with its `{{name}}` placeholders filled in */
+  render(id: PromptId, variables?: PromptVariables): string;
+  /** A prompt of alternating user and assistant turns split on `---` lines */
+  messages(
+    id: PromptId,
+    variables?: PromptVariables
+  ): Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Every prompt rendered so far, in the order first used */
+  used(): PromptUsage[];
+}
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const hashPrompt = (template: string) =>
+  createHash('sha256').update(template).digest('hex').slice(0, 12);
+
+export function createPromptRegistry(
+  overrides: PromptOverrides = {}
+): PromptRegistry {
+  const used = new Map<PromptId, PromptUsage>();
+
+  function render(id: PromptId, variables: PromptVariables = {}) {
+    const override = overrides[id];
+    const { version, template } = override || defaultPrompts[id];
+    if (!used.has(id)) {
+      used.set(id, {
+        id,
+        version,
+        hash: hashPrompt(template),
+        source: override?.source || 'default',
+      });
+    }
+    return template.replace(PLACEHOLDER, (_, name: string) =>
+      String(variables[name] ?? '')
+    );
+  }
+
+  return {
+    render,
+    messages: (id, variables) =>
+      render(id, variables)
+        .split(/^---$/m)
+        .map((turn) => turn.trim())
+        .filter(Boolean)
+        .map((content, i) => ({
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content,
+        })),
+    used: () => Array.from(used.values()),
+  };
+}
+
+// `---\nversion: 2\n---` before the template, all optional
+function parseOverride(raw: string) {
+  const frontmatter = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  const version = frontmatter?.[1].match(/^version:\s*(\d+)\s*$/m);
+  return {
+    version: version ? Number(version[1]) : undefined,
+    template: (frontmatter ? raw.slice(frontmatter[0].length) : raw).trim(),
+  };
+}
+
+/**
+ * Reads `<id>.md` files from `dir` to use in place of the default prompts.
+ * A missing directory means no overrides. Files for prompts that don't
+ * exist, or templates using variables their prompt doesn't have, throw so
+ * a typo doesn't silently fall back to the default.
+ */
+export async function loadPromptOverrides(
+  dir: string
+): Promise<PromptOverrides> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new UsageError(`Could not read prompts ${dir}: ${error}`);
+  }
+
+  const overrides: PromptOverrides = {};
+  for (const file of files.filter((name) => name.endsWith('.md')).sort()) {
+    const id = path.basename(file, '.md') as PromptId;
+    const source = path.join(dir, file);
+    if (!promptIds.includes(id)) {
+      throw new UsageError(
+        `${source} doesn't match a prompt, expected one of: ${promptIds.join(', ')}`
+      );
+    }
+
+    const { version, template } = parseOverride(
+      await fs.readFile(source, 'utf-8')
+    );
+    const allowed: readonly string[] = defaultPrompts[id].variables;
+    const unknown = Array.from(template.matchAll(PLACEHOLDER))
+      .map((match) => match[1])
+      .filter((name) => !allowed.includes(name));
+    if (unknown.length) {
+      throw new UsageError(
+        `${source} uses unknown variables ${unknown.join(', ')}, ` +
+          `${id} has: ${allowed.join(', ') || 'none'}`
+      );
+    }
+
+    overrides[id] = {
+      version: version ?? defaultPrompts[id].version,
+      template,
+      source,
+    };
+  }
+  return overrides;
+}
+
+/** Records the prompts a run used, merged with those of earlier attempts */
+export async function writePromptManifest(
+  runDir: string,
+  prompts: PromptUsage[]
+) {
+  const filePath = path.join(runDir, 'prompts.json');
+  let previous: PromptUsage[] = [];
+  try {
+    previous = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    // First attempt at this run
+  }
+  const byId = new Map(previous.map((usage) => [usage.id, usage]));
+  prompts.forEach((usage) => byId.set(usage.id, usage));
+
+  await fs.mkdir(runDir, { recursive: true });
+  await fs.writeFile(
+    filePath,
+    JSON.stringify(Array.from(byId.values()), null, 2),
+    'utf-8'
+  );
+  return filePath;
+}
@@ -0,0 +1,15 @@
+import { EventSink } from '../events.js';
+
+/**
+ * One JSON object per line on stdout, timestamped, for CI logs and
+ * anything else that wants to follow a run
+ */
+export function createJsonRenderer(
+  stream: NodeJS.WritableStream = process.stdout
+): EventSink {
+  return (event) => {
+    stream.write(
+      JSON.stringify({ timestamp: new Date().toISOString(), ...event }) + '\n'
+    );
+  };
+}
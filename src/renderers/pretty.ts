@@ -0,0 +1,278 @@
+import kleur from 'kleur';
+import { CacheKind, CacheStats, cacheKinds } from '../cache.js';
+import { EventPhase, EventSink, PipelineEvent } from '../events.js';
+import { BlogPost, Outline } from '../schemas.js';
+import { WebContent } from '../types.js';
+import { formatUsageTable, UsageReport } from '../usage.js';
+
+const PHASE_HEADERS: Partial<Record<EventPhase, string>> = {
+  sources: 'Phase 1: Content Discovery',
+  outline: 'Phase 3: Content Generation',
+  polish: 'Phase 4: Quality Enhancement',
+  final: 'Phase 5: Final Polish',
+  verify: 'Phase 6: Fact Check',
+};
+
+// Phases that report nothing until they're done get a one-line status
+const PHASE_LABELS: Partial<Record<EventPhase, string>> = {
+  queries: 'Generating search queries... ',
+  outline: 'Creating outline... ',
+  sections: 'Indexing sources... ',
+  summary: 'Generating summary and conclusion... ',
+  polish: 'Starting initial polish... ',
+  final: 'Improving flow... ',
+  thread: 'Writing thread... ',
+};
+
+export function printPost(post: BlogPost) {
+  console.log('\n' + kleur.bold().cyan('╭─────────────────────╮'));
+  console.log(kleur.bold().cyan('│     Blog Post      │'));
+  console.log(kleur.bold().cyan('╰─────────────────────╯\n'));
+
+  console.log(kleur.bold().blue(post.title));
+  console.log(kleur.dim('═'.repeat(post.title.length)) + '\n');
+
+  console.log(kleur.bold('Summary'));
+  console.log(kleur.dim('─'.repeat(40)));
+  console.log(post.summary + '\n');
+
+  for (const block of post.content) {
+    if (block.type === 'heading') {
+      console.log(kleur.bold(block.text));
+      console.log(kleur.dim('─'.repeat(40)));
+    } else {
+      console.log(block.text + '\n');
+
+      if (block.citations?.length) {
+        console.log(kleur.dim('Citations:'));
+        block.citations.forEach(({ url }) => {
+          console.log(kleur.dim(`• ${url}`));
+        });
+        console.log();
+      }
+    }
+  }
+}
+
+export function printSources(sources: WebContent[]) {
+  const usable = sources.filter((source) => source.content);
+  console.log(kleur.bold(`\n${usable.length} sources`));
+  console.log(kleur.dim('─'.repeat(40)));
+  for (const source of usable) {
+    console.log(
+      `${kleur.cyan(`[${source.id}]`)} ${source.title || source.url}`
+    );
+    console.log(kleur.dim(`     ${source.url}`));
+  }
+}
+
+export function printOutline(outline: Outline) {
+  console.log('\n' + kleur.bold().blue(outline.title));
+  console.log(kleur.dim('═'.repeat(outline.title.length)));
+  for (const section of outline.sections) {
+    console.log(kleur.bold(`\n${section.title}`));
+    section.key_points.forEach((point) => console.log(`• ${point}`));
+  }
+}
+
+export function describeRound({
+  depth,
+  learnings,
+  gaps,
+  followUps,
+  sufficient,
+}: Extract<PipelineEvent, { type: 'round:analyzed' }>) {
+  const outcome = sufficient
+    ? 'coverage sufficient'
+    : followUps
+      ? `following up with ${followUps} queries`
+      : 'done';
+  return `Round ${depth}: ${learnings} learnings, ${gaps} open questions, ${outcome}`;
+}
+
+export function describeTargets({
+  grade,
+  issues,
+  revisions,
+}: Extract<PipelineEvent, { type: 'targets:checked' }>) {
+  const revised = revisions ? ` after ${revisions} revisions` : '';
+  const level =
+    grade === undefined
+      ? 'Reading grade not checked'
+      : `Reading grade ${grade}`;
+  return issues
+    ? `${level}, ${issues} writing targets missed${revised}`
+    : `${level}, on target${revised}`;
+}
+
+export function printCacheStats(stats: Record<CacheKind, CacheStats>) {
+  console.log(kleur.dim('Cache:'));
+  for (const kind of cacheKinds) {
+    const { hits, misses, failures } = stats[kind];
+    console.log(
+      kleur.dim(`• ${kind}: ${hits} hits, ${misses} misses`) +
+        (failures ? kleur.yellow(`, ${failures} failed writes`) : '')
+    );
+  }
+}
+
+export function printUsage(report: UsageReport) {
+  console.log(kleur.dim('\nUsage:'));
+  console.log(formatUsageTable(report));
+}
+
+/**
+ * The original console output: phase headers, a status line per step and
+ * the finished post printed in full.
+ */
+export function createPrettyRenderer(): EventSink {
+  // A status line waiting for its ✓
+  let open = false;
+  let fetched = 0;
+  let failed = 0;
+  const preview: string[] = [];
+
+  const write = (text: string) => {
+    process.stdout.write(text);
+    open = true;
+  };
+  const finish = (suffix = kleur.green('✓')) => {
+    if (open) process.stdout.write(`${suffix}\n`);
+    open = false;
+  };
+  const line = (text: string) => {
+    finish();
+    console.log(text);
+  };
+
+  return (event) => {
+    switch (event.type) {
+      case 'run:start':
+        line(
+          kleur.bold().blue('\n🔍 Starting Research: ') +
+            kleur.bold(event.topic)
+        );
+        console.log(kleur.dim('═'.repeat(50)));
+        break;
+      case 'phase:resumed':
+        line(kleur.dim(`↺ Reusing ${event.phase} from checkpoint`));
+        break;
+      case 'phase:start': {
+        const header = PHASE_HEADERS[event.phase];
+        if (header) {
+          line(kleur.dim(`\n${header}`));
+          console.log(kleur.dim('─'.repeat(30)));
+        }
+        const label = PHASE_LABELS[event.phase];
+        if (label) write(kleur.dim(label));
+        break;
+      }
+      case 'phase:end':
+        if (event.phase === 'sources') {
+          line(kleur.dim('\nSource processing complete:'));
+          console.log(kleur.dim(`• ${fetched} sources processed successfully`));
+          console.log(kleur.dim(`• ${failed} sources failed or were empty`));
+          console.log(kleur.dim('\nPhase 2: Content Analysis'));
+          console.log(kleur.dim('─'.repeat(30)));
+          console.log(kleur.dim('Source Preview:'));
+          preview.slice(0, 2).forEach((url, i) => {
+            console.log(kleur.dim(`${i + 1}. ${new URL(url).hostname}`));
+            console.log(kleur.dim(`   ${url}\n`));
+          });
+        }
+        finish();
+        break;
+      case 'query:generated':
+        break;
+      case 'search:completed':
+        if (event.completed === 1) {
+          write(kleur.dim(`Searching ${event.provider}... `));
+        }
+        process.stdout.write(
+          `${kleur.green('✓')}${event.completed < event.total ? ', ' : ''}`
+        );
+        if (event.completed === event.total) finish('');
+        break;
+      case 'sources:found':
+        line(
+          kleur.dim(
+            `Found ${event.count} unique sources to analyze` +
+              (event.dropped ? ` (${event.dropped} filtered out)` : '')
+          )
+        );
+        console.log(kleur.dim('Processing sources:'));
+        break;
+      case 'source:fetched':
+        fetched++;
+        preview.push(event.url);
+        line(kleur.dim(`  ${event.url.slice(0, 60)}... `) + kleur.green('✓'));
+        break;
+      case 'source:failed':
+        failed++;
+        line(
+          kleur.dim(`  ${event.url.slice(0, 60)}... `) +
+            (event.reason === 'empty'
+              ? kleur.yellow('empty')
+              : kleur.red(`failed (${event.reason})`))
+        );
+        break;
+      case 'round:analyzed':
+        line(kleur.dim(describeRound(event)));
+        break;
+      case 'index:built':
+        finish(kleur.green(`✓ ${event.chunks} chunks`));
+        write(kleur.dim('Writing sections... '));
+        break;
+      case 'section:written':
+        write(
+          `\r${kleur.dim(
+            `Generated ${event.completed}/${event.total} sections...`
+          )}`
+        );
+        break;
+      case 'part:polished':
+        write(
+          `\r${kleur.dim(
+            `Processed ${event.completed}/${event.total} parts...`.padEnd(40)
+          )}`
+        );
+        break;
+      case 'claims:checked':
+        write(`\r${kleur.dim(`Checked ${event.claims} claims...`.padEnd(40))}`);
+        break;
+      case 'targets:checked':
+        line(kleur.dim(describeTargets(event)));
+        break;
+      case 'verification:summary':
+        line(
+          kleur.dim(
+            `${event.flagged}/${event.checked} claims not supported by sources`
+          )
+        );
+        break;
+      case 'artifact:written':
+        line(kleur.dim(`Wrote ${event.name} to ${event.path}`));
+        break;
+      case 'warning':
+        line(kleur.yellow(event.message));
+        break;
+      case 'run:end':
+        line(kleur.bold().green('\n✨ Blog Post Generated Successfully! ✨'));
+        console.log(kleur.dim('═'.repeat(50)));
+        printPost(event.post);
+        break;
+      case 'cache:stats':
+        line('');
+        printCacheStats(event.stats);
+        break;
+      case 'usage':
+        finish();
+        printUsage(event.report);
+        break;
+      case 'run:error':
+        finish(kleur.red('✗'));
+        console.error(kleur.red(`\n${event.message}`));
+        break;
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import { SingleBar } from 'cli-progress';
+import kleur from 'kleur';
+import { EventPhase, EventSink } from '../events.js';
+import {
+  describeRound,
+  describeTargets,
+  printCacheStats,
+  printPost,
+  printUsage,
+} from './pretty.js';
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * One line per phase, with a progress bar for phases that work through a
+ * known number of items (sources, sections, parts, paragraphs)
+ */
+export function createProgressRenderer(): EventSink {
+  let bar: SingleBar | undefined;
+  // Printed once the bar is gone so they don't tear it
+  let deferred: string[] = [];
+
+  const stopBar = () => {
+    bar?.stop();
+    bar = undefined;
+    deferred.forEach((message) => console.log(message));
+    deferred = [];
+  };
+
+  const print = (message: string) => {
+    if (bar) deferred.push(message);
+    else console.log(message);
+  };
+
+  const advance = (
+    phase: EventPhase,
+    completed: number,
+    total: number,
+    label: string
+  ) => {
+    if (!bar) {
+      bar = new SingleBar({
+        format: `  {bar} {value}/{total} ${kleur.dim('{label}')}`,
+        barsize: 30,
+        hideCursor: true,
+        clearOnComplete: true,
+      });
+      bar.start(total, 0, { label: phase });
+    }
+    bar.setTotal(total);
+    bar.update(completed, { label });
+  };
+
+  let phase: EventPhase = 'queries';
+
+  return (event) => {
+    switch (event.type) {
+      case 'run:start':
+        console.log(kleur.bold().blue('🔍 ') + kleur.bold(event.topic));
+        break;
+      case 'phase:resumed':
+        console.log(kleur.dim(`↺ ${event.phase} (checkpoint)`));
+        break;
+      case 'phase:start':
+        stopBar();
+        phase = event.phase;
+        break;
+      case 'phase:end':
+        stopBar();
+        console.log(
+          `${kleur.green('✓')} ${event.phase} ${kleur.dim(
+            formatDuration(event.durationMs)
+          )}`
+        );
+        break;
+      case 'query:generated':
+      case 'search:completed':
+        advance(phase, event.completed, event.total, event.query);
+        break;
+      case 'source:fetched':
+      case 'source:failed':
+        advance(phase, event.completed, event.total, event.url.slice(0, 50));
+        break;
+      case 'section:written':
+        advance(phase, event.completed, event.total, event.title);
+        break;
+      case 'part:polished':
+        advance(phase, event.completed, event.total, event.part);
+        break;
+      case 'claims:checked':
+        advance(phase, event.completed, event.total, `${event.claims} claims`);
+        break;
+      case 'round:analyzed':
+        stopBar();
+        print(kleur.dim(`  ${describeRound(event)}`));
+        break;
+      case 'warning':
+        print(kleur.yellow(event.message));
+        break;
+      case 'targets:checked':
+        stopBar();
+        print(kleur.dim(`  ${describeTargets(event)}`));
+        break;
+      case 'verification:summary':
+        print(
+          kleur.dim(
+            `  ${event.flagged}/${event.checked} claims not supported by sources`
+          )
+        );
+        break;
+      case 'artifact:written':
+        print(kleur.dim(`  ${event.name}: ${event.path}`));
+        break;
+      case 'run:end':
+        stopBar();
+        printPost(event.post);
+        break;
+      case 'cache:stats':
+        printCacheStats(event.stats);
+        break;
+      case 'usage':
+        printUsage(event.report);
+        break;
+      case 'run:error':
+        stopBar();
+        console.error(kleur.red(`\n${event.message}`));
+        break;
+    }
+  };
+}
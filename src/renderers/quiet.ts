@@ -0,0 +1,13 @@
+import kleur from 'kleur';
+import { EventSink } from '../events.js';
+
+/** Nothing but warnings and errors, on stderr */
+export function createQuietRenderer(): EventSink {
+  return (event) => {
+    if (event.type === 'warning') {
+      console.error(kleur.yellow(event.message));
+    } else if (event.type === 'run:error') {
+      console.error(kleur.red(event.message));
+    }
+  };
+}
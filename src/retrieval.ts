@@ -0,0 +1,113 @@
+import { cosineSimilarity, embedMany } from 'ai';
+import { Cache } from './cache.js';
+import { ModelRegistry } from './models.js';
+import { WebContent } from './types.js';
+import { describeAge } from './utils/dates.js';
+import { chunkText } from './utils/text.js';
+
+export interface SourceChunk {
+  sourceId?: string;
+  text: string;
+  url: string;
+  title?: string;
+  publishedAt?: string;
+}
+
+export interface RetrievedChunk extends SourceChunk {
+  score: number;
+}
+
+export interface ChunkIndex {
+  chunks: SourceChunk[];
+  embeddings: number[][];
+}
+
+export interface RetrievalOptions {
+  models: ModelRegistry;
+  cache?: Cache;
+  chunkSize?: number;
+  overlap?: number;
+}
+
+async function embedValues(
+  values: string[],
+  { models, cache }: RetrievalOptions
+): Promise<number[][]> {
+  const model = models.embedding();
+  const compute = async () => (await embedMany({ model, values })).embeddings;
+  const key = { provider: model.provider, modelId: model.modelId, values };
+  return cache ? cache.wrap('embedding', key, compute) : compute();
+}
+
+/**
+ * Splits every source into overlapping chunks and embeds them once, so
+ * each section can pull just the passages relevant to it.
+ */
+export async function buildChunkIndex(
+  contents: WebContent[],
+  options: RetrievalOptions
+): Promise<ChunkIndex> {
+  const perSource = await Promise.all(
+    contents
+      .filter((content) => content.content)
+      .map(async (content) => {
+        const chunks = chunkText(content.content, {
+          chunkSize: options.chunkSize,
+          overlap: options.overlap,
+          // Short sentences still carry facts, only drop fragments
+          minLength: 20,
+        }).map((text) => ({
+          sourceId: content.id,
+          text,
+          url: content.url,
+          title: content.title,
+          publishedAt: content.publishedAt,
+        }));
+
+        // Embedded per source so a new source doesn't invalidate the
+        // cached embeddings of the others
+        const embeddings = chunks.length
+          ? await embedValues(
+              chunks.map((chunk) => chunk.text),
+              options
+            )
+          : [];
+        return { chunks, embeddings };
+      })
+  );
+
+  return {
+    chunks: perSource.flatMap((source) => source.chunks),
+    embeddings: perSource.flatMap((source) => source.embeddings),
+  };
+}
+
+export async function retrieveChunks(
+  index: ChunkIndex,
+  query: string,
+  { topK, ...options }: RetrievalOptions & { topK: number }
+): Promise<RetrievedChunk[]> {
+  if (!index.chunks.length) return [];
+
+  const [embedding] = await embedValues([query], options);
+
+  return index.chunks
+    .map((chunk, i) => ({
+      ...chunk,
+      score: cosineSimilarity(embedding, index.embeddings[i]),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+export function formatChunks(chunks: RetrievedChunk[], now = new Date()) {
+  return chunks
+    .map(
+      (chunk) =>
+        `[${chunk.sourceId}] ${chunk.url} (${describeAge(
+          chunk.publishedAt,
+          now
+        )})\n${chunk.text}`
+    )
+    .join('\n\n');
+}
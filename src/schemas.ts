@@ -23,6 +23,7 @@ export const blogPostSchema = z.object({
       level: z.number().optional().describe('Heading level (2 for sections, 3 for subsections, etc.)'),
       citations: z.array(
         z.object({
+          source_id: z.string().describe('ID of the source supporting the claim, e.g. S3, exactly as listed in the available sources'),
           text: z.string().describe('The specific claim or statement being cited'),
           url: z.string().describe('Source URL supporting the claim')
         })
@@ -31,17 +32,74 @@ export const blogPostSchema = z.object({
   ).describe('Main content blocks, organized to tell a coherent story with proper citations'),
   metadata: z.object({
     reading_time: z.number().describe('Estimated reading time in minutes'),
-    technical_level: z.number().min(1).max(5).describe('Technical complexity rating (1=beginner to 5=expert)'),
-    business_impact: z.number().min(1).max(5).describe('Potential business value rating (1=low to 5=transformative)')
+    technical_level: z.number().min(1).max(5).optional().describe('Technical complexity rating (1=beginner to 5=expert)'),
+    business_impact: z.number().min(1).max(5).optional().describe('Potential business value rating (1=low to 5=transformative)'),
+    tags: z.array(z.string()).optional().describe('3 to 5 short lowercase topic tags, like a blog would file the post under')
   }).describe('Article metadata for classification and reader expectations'),
   references: z.array(
     z.object({
       url: z.string().describe('Full URL to the reference'),
       title: z.string().describe('Title or description of the reference'),
-      site: z.string().describe('Domain name of the source')
+      site: z.string().describe('Domain name of the source'),
+      author: z.string().optional().describe('Author or authors of the source, when known'),
+      publisher: z.string().optional().describe('Site or organization that published the source'),
+      published: z.string().optional().describe('Publication date of the source as YYYY-MM-DD, when known'),
+      accessed: z.string().optional().describe('Date the source was read as YYYY-MM-DD'),
+      excerpt: z.string().optional().describe('A sentence or two from the source saying what it covers')
     })
   ).describe('List of authoritative sources used in the article')
 });
 
+export const threadSchema = z.object({
+  hook: z.string().describe('Opening tweet that grabs attention and makes people want to read the whole thread'),
+  tweets: z.array(
+    z.object({
+      text: z.string().describe('One self-contained idea per tweet, written for a scrolling reader, without numbering'),
+      citations: z.array(
+        z.string().describe('Source URL backing a claim made in this tweet')
+      ).describe('Links to attach to this tweet, only for claims it actually makes')
+    })
+  ).describe('Body of the thread, each tweet building on the previous one'),
+  closing: z.string().describe('Final tweet that wraps up the key takeaway and invites discussion')
+});
+
+export const tweetSplitSchema = z.object({
+  tweets: z.array(
+    z.string().describe('A shorter tweet carrying part of the original message')
+  ).describe('The original tweet rewritten as consecutive tweets, in order')
+});
+
+export const claimsSchema = z.object({
+  claims: z.array(
+    z.object({
+      claim: z.string().describe('One atomic, independently checkable factual statement, rewritten to stand on its own'),
+      quote: z.string().describe('The exact span of the paragraph that makes this claim, copied verbatim')
+    })
+  ).describe('Factual claims only: statistics, dates, named facts, causal statements. Skip opinions and advice')
+});
+
+export const verdictsSchema = z.object({
+  verdicts: z.array(
+    z.object({
+      claim_index: z.number().describe('Number of the claim being judged, as given in the prompt'),
+      verdict: z.enum(['supported', 'unsupported', 'contradicted']).describe('supported if a passage states it, contradicted if a passage states otherwise, unsupported if the passages are silent'),
+      evidence_ids: z.array(z.string()).describe('Source IDs of the passages that support or contradict the claim'),
+      explanation: z.string().describe('One sentence explaining the verdict')
+    })
+  )
+});
+
+export const roundAnalysisSchema = z.object({
+  learnings: z.array(
+    z.string().describe('One concise, information-dense finding from the sources, with any names, numbers and dates it depends on')
+  ).describe('What this round of sources taught us that we did not already know'),
+  gaps: z.array(
+    z.string().describe('A specific open question a thorough post on the topic would need answered, phrased as a question')
+  ).describe('Knowledge gaps left after everything learned so far, most important first'),
+  sufficient: z.boolean().describe('True only if the learnings so far already cover the topic well enough for a thorough, well-sourced post')
+});
+
 export type BlogPost = z.infer<typeof blogPostSchema>;
 export type Outline = z.infer<typeof outlineSchema>;
+export type Thread = z.infer<typeof threadSchema>;
+export type RoundAnalysis = z.infer<typeof roundAnalysisSchema>;
@@ -0,0 +1,250 @@
+import { generateObject } from 'ai';
+import {
+  BlogPost,
+  Outline,
+  threadSchema,
+  tweetSplitSchema,
+} from './schemas.js';
+import { RenderedThread, Tweet, WebContent } from './types.js';
+import { ModelRegistry } from './models.js';
+import { PromptRegistry, createPromptRegistry } from './prompts/registry.js';
+import {
+  TWEET_MAX_LENGTH,
+  countTweetLength,
+  splitTweet,
+  truncateTweet,
+} from './utils/tweet.js';
+import { languageInstruction } from './utils/language.js';
+
+// How many times the model gets to re-split tweets that are over budget
+// before we fall back to cutting them mechanically
+const MAX_RESPLIT_ATTEMPTS = 2;
+// Rounds of cutting, enough for the counter width to settle, before the
+// tweets still over are truncated
+const MAX_SPLIT_ROUNDS = 3;
+// Each link eats 23 characters, more than this leaves no room for text
+const MAX_LINKS_PER_TWEET = 2;
+
+export type ThreadInput =
+  | { blogPost: BlogPost }
+  | { outline: Outline; sources: WebContent[] };
+
+export interface ThreadOptions {
+  /** Language to write the tweets in */
+  language?: string;
+  /** Where the prompts come from, the built-in ones if unset */
+  prompts?: PromptRegistry;
+}
+
+interface DraftTweet {
+  text: string;
+  citations: string[];
+}
+
+function describeInput(input: ThreadInput): {
+  content: string;
+  urls: string[];
+} {
+  if ('blogPost' in input) {
+    const { blogPost } = input;
+    const urls = [
+      ...blogPost.references.map((ref) => ref.url),
+      ...blogPost.content.flatMap(
+        (block) => block.citations?.map((citation) => citation.url) || []
+      ),
+    ];
+    const body = blogPost.content
+      .map((block) => {
+        if (block.type === 'heading') return `## ${block.text}`;
+        const citations = (block.citations || [])
+          .map((citation) => `[${citation.url}] ${citation.text}`)
+          .join('\n');
+        return citations ? `${block.text}\n${citations}` : block.text;
+      })
+      .join('\n\n');
+
+    return {
+      content: `# ${blogPost.title}\n${blogPost.subtitle}\n\n${blogPost.summary}\n\n${body}\n\nReferences:\n${urls.join('\n')}`,
+      urls,
+    };
+  }
+
+  const { outline, sources } = input;
+  const usable = sources.filter((source) => source.content);
+  const sections = outline.sections
+    .map(
+      (section) =>
+        `## ${section.title}\n${section.key_points
+          .map((point) => `- ${point}`)
+          .join('\n')}`
+    )
+    .join('\n\n');
+  const corpus = usable
+    .map((source) => `Source: ${source.url}\n${source.content}`)
+    .join('\n\n');
+
+  return {
+    content: `# ${outline.title}\n\n${sections}\n\nSources:\n\n${corpus}`,
+    urls: usable.map((source) => source.url),
+  };
+}
+
+function composeTweet(tweet: DraftTweet, position: number, total: number) {
+  const links = tweet.citations.filter((url) => !tweet.text.includes(url));
+  return [tweet.text.trim(), ...links, `${position}/${total}`].join('\n');
+}
+
+function findOverBudget(tweets: DraftTweet[]) {
+  return tweets
+    .map((tweet, index) => ({ tweet, index }))
+    .filter(
+      ({ tweet, index }) =>
+        countTweetLength(composeTweet(tweet, index + 1, tweets.length)) >
+        TWEET_MAX_LENGTH
+    );
+}
+
+// Characters left for the tweet text once its links and the "n/N"
+// counter are attached
+function textBudget(tweet: DraftTweet, total: number) {
+  const overhead = countTweetLength(
+    composeTweet({ text: '', citations: tweet.citations }, total, total)
+  );
+  return TWEET_MAX_LENGTH - overhead;
+}
+
+async function resplitTweet(
+  tweet: DraftTweet,
+  budget: number,
+  models: ModelRegistry,
+  prompts: PromptRegistry
+): Promise<DraftTweet[]> {
+  const { object } = await generateObject({
+    ...models.forPhase('thread'),
+    schema: tweetSplitSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('resplit', { budget }),
+      },
+      {
+        role: 'user',
+        content: tweet.text,
+      },
+    ],
+  });
+
+  const pieces = object.tweets.map((text) => text.trim()).filter(Boolean);
+  if (!pieces.length) return [tweet];
+
+  // Links stay with the first piece, where the claim is introduced
+  return pieces.map((text, i) => ({
+    text,
+    citations: i === 0 ? tweet.citations : [],
+  }));
+}
+
+/**
+ * Turns a blog post (or an outline plus its source corpus) into a numbered
+ * thread where every tweet, including its links and counter, fits in 280
+ * characters as counted by X.
+ */
+export async function generateThread(
+  topic: string,
+  input: ThreadInput,
+  models: ModelRegistry,
+  { language = 'English', prompts = createPromptRegistry() }: ThreadOptions = {}
+): Promise<RenderedThread> {
+  const { content, urls } = describeInput(input);
+  const knownUrls = new Set(urls);
+
+  const { object: thread } = await generateObject({
+    ...models.forPhase('thread'),
+    schema: threadSchema,
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('thread', {
+          topic,
+          maxLength: TWEET_MAX_LENGTH,
+          language: languageInstruction(language),
+        }),
+      },
+      {
+        role: 'user',
+        content,
+      },
+    ],
+  });
+
+  let tweets: DraftTweet[] = [
+    { text: thread.hook, citations: [] },
+    ...thread.tweets.map((tweet) => ({
+      text: tweet.text,
+      // Drop anything the model made up
+      citations: Array.from(new Set(tweet.citations))
+        .filter((url) => knownUrls.has(url))
+        .slice(0, MAX_LINKS_PER_TWEET),
+    })),
+    { text: thread.closing, citations: [] },
+  ].filter((tweet) => tweet.text.trim());
+
+  for (let attempt = 0; attempt < MAX_RESPLIT_ATTEMPTS; attempt++) {
+    const overBudget = findOverBudget(tweets);
+    if (!overBudget.length) break;
+
+    const replacements = await Promise.all(
+      overBudget.map(({ tweet }) =>
+        resplitTweet(
+          tweet,
+          textBudget(tweet, tweets.length + 1),
+          models,
+          prompts
+        )
+      )
+    );
+
+    const next = [...tweets] as Array<DraftTweet | DraftTweet[]>;
+    overBudget.forEach(({ index }, i) => {
+      next[index] = replacements[i];
+    });
+    tweets = next.flat();
+  }
+
+  // Still too long after asking nicely, cut at sentence/word boundaries.
+  // Repeat until the counter width settles (e.g. 9 -> 10 tweets).
+  let overBudget = findOverBudget(tweets);
+  for (let round = 0; overBudget.length && round < MAX_SPLIT_ROUNDS; round++) {
+    const next = [...tweets] as Array<DraftTweet | DraftTweet[]>;
+    for (const { tweet, index } of overBudget) {
+      const budget = textBudget(tweet, tweets.length * 2);
+      if (budget <= 0) continue;
+      next[index] = splitTweet(tweet.text, budget).map((text, i) => ({
+        text,
+        citations: i === 0 ? tweet.citations : [],
+      }));
+    }
+    tweets = next.flat();
+    overBudget = findOverBudget(tweets);
+  }
+  // Splitting doesn't always help, e.g. when the links leave no room
+  for (const { tweet, index } of overBudget) {
+    tweets[index] = {
+      ...tweet,
+      text: truncateTweet(tweet.text, textBudget(tweet, tweets.length)),
+    };
+  }
+
+  return {
+    topic,
+    tweets: tweets.map((tweet, i): Tweet => {
+      const text = composeTweet(tweet, i + 1, tweets.length);
+      return {
+        position: i + 1,
+        text,
+        length: countTweetLength(text),
+        citations: tweet.citations,
+      };
+    }),
+  };
+}
@@ -1,8 +1,20 @@
 export interface WebContent {
+  /** Stable citation ID (S1, S2, ...) assigned once sources are collected */
+  id?: string;
   url: string;
   content: string;
   title?: string;
   hostname?: string;
+  canonicalUrl?: string;
+  /** Other URLs of the same page, or of copies merged into it */
+  alternateUrls?: string[];
+  author?: string;
+  /** Site or organization that published the page */
+  siteName?: string;
+  publishedAt?: string;
+  /** When the page was read, as YYYY-MM-DD */
+  accessedAt?: string;
+  description?: string;
 }
 
 export interface SearchResult {
@@ -10,4 +22,93 @@ export interface SearchResult {
   link: string;
   snippet: string;
   hostname?: string;
+  /** When the provider knows it, as YYYY-MM-DD */
+  publishedAt?: string;
+}
+
+export interface Tweet {
+  position: number;
+  text: string;
+  length: number;
+  citations: string[];
+}
+
+export interface RenderedThread {
+  topic: string;
+  tweets: Tweet[];
+}
+
+export interface SearchOptions {
+  num?: number;
+  /** Only results published on or after this date */
+  since?: Date;
+  /** What relative dates like "3 days ago" are counted back from */
+  now?: Date;
+}
+
+export interface SearchProvider {
+  name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+}
+
+export interface SectionDraft {
+  title: string;
+  content: string;
+  sources: string[];
+}
+
+export interface SummaryDraft {
+  summary: string;
+  conclusion: string;
+}
+
+export type ContentPartType = 'section' | 'title' | 'summary' | 'conclusion';
+
+interface BaseContentPart {
+  type: ContentPartType;
+  content: string;
+}
+
+export interface SectionContentPart extends BaseContentPart {
+  type: 'section';
+  title: string;
+}
+
+export type ContentPart =
+  | SectionContentPart
+  | (BaseContentPart & { type: Exclude<ContentPartType, 'section'> });
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+export interface VerifiedClaim {
+  /** Index of the content block the claim was found in */
+  block: number;
+  claim: string;
+  quote: string;
+  verdict: ClaimVerdict;
+  explanation: string;
+  /** URLs of the passages backing the verdict */
+  evidence: string[];
+}
+
+export interface VerificationReport {
+  mode: 'mark' | 'soften' | 'remove' | 'off';
+  claims: VerifiedClaim[];
+}
+
+export interface ResearchQuery {
+  query: string;
+  /** The gap this query follows up on, unset in the first round */
+  gap?: string;
+  /** URLs of the sources it found that no earlier query had */
+  sources: string[];
+}
+
+/** One round of the research loop, as saved in `research-tree.json` */
+export interface ResearchRound {
+  depth: number;
+  queries: ResearchQuery[];
+  learnings: string[];
+  gaps: string[];
+  sufficient: boolean;
 }
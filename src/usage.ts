@@ -0,0 +1,349 @@
+import Table from 'cli-table3';
+import { EmbeddingModel, Experimental_LanguageModelV1Middleware } from 'ai';
+import fs from 'fs/promises';
+import path from 'path';
+import { ModelPhase, ModelSpec } from './config.js';
+
+export type UsagePhase = ModelPhase | 'embedding';
+
+/** Dollars per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// OpenAI list prices. Anything else is priced from `pricing` in the config
+// or counted as free, which local models are.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'openai:gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai:gpt-4.1': { input: 2, output: 8 },
+  'openai:o3-mini': { input: 1.1, output: 4.4 },
+  'openai:gpt-4-turbo': { input: 10, output: 30 },
+  'openai:gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'openai:text-embedding-3-small': { input: 0.02, output: 0 },
+  'openai:text-embedding-3-large': { input: 0.13, output: 0 },
+  'openai:text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+// What a call is assumed to cost before any have been made
+const DEFAULT_PROMPT_TOKENS = 4000;
+const DEFAULT_COMPLETION_TOKENS = 1000;
+// Rough and deliberately pessimistic for English text
+const CHARS_PER_TOKEN = 3.5;
+
+export interface UsageEntry {
+  phase: UsagePhase;
+  /** `provider:model` */
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Dollars, or undefined when the model has no known price */
+  cost?: number;
+}
+
+export interface UsageReport {
+  budget?: number;
+  totalCost: number;
+  entries: UsageEntry[];
+}
+
+export interface BudgetOptions {
+  /** Dollars. No limit when unset */
+  limit?: number;
+  /** abort: stop the run, downgrade: switch to `fallback` first */
+  onExceed: 'abort' | 'downgrade';
+  fallback: ModelSpec;
+}
+
+export interface UsageTracker {
+  record(
+    phase: UsagePhase,
+    spec: ModelSpec,
+    usage: { promptTokens: number; completionTokens: number }
+  ): void;
+  /**
+   * Sets aside the estimated cost of a call, so calls running in parallel
+   * can't overshoot the budget together. Throws a `BudgetExceededError` if
+   * it doesn't fit. Returns a function that releases the reservation.
+   */
+  reserve(
+    spec: ModelSpec,
+    tokens: { promptTokens: number; completionTokens: number }
+  ): () => void;
+  /**
+   * The model a phase should use now: its own, or the fallback once an
+   * average call on its own model no longer fits in the budget
+   */
+  select(spec: ModelSpec): ModelSpec;
+  report(): UsageReport;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly limit: number,
+    readonly spent: number,
+    readonly estimate: number
+  ) {
+    super(
+      `Budget of $${limit.toFixed(2)} exceeded: $${spent.toFixed(4)} spent, ` +
+        `next call estimated at $${estimate.toFixed(4)}`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const modelLabel = ({ provider, model }: ModelSpec) =>
+  `${provider}:${model}`;
+
+export function createUsageTracker(
+  budget: BudgetOptions,
+  pricing: Record<string, ModelPrice> = {}
+): UsageTracker {
+  const entries = new Map<string, UsageEntry>();
+  let spent = 0;
+  let reserved = 0;
+  let calls = 0;
+  let promptTokens = 0;
+
+  const priceOf = (spec: ModelSpec): ModelPrice | undefined => {
+    const label = modelLabel(spec);
+    if (pricing[label] || pricing[spec.model]) {
+      return pricing[label] || pricing[spec.model];
+    }
+    // Dated snapshots (gpt-4o-2024-08-06) cost the same as their alias
+    const known = Object.keys(DEFAULT_PRICES)
+      .filter((key) => label === key || label.startsWith(`${key}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return known ? DEFAULT_PRICES[known] : undefined;
+  };
+
+  const costOf = (
+    spec: ModelSpec,
+    tokens: { promptTokens: number; completionTokens: number }
+  ) => {
+    const price = priceOf(spec);
+    if (!price) return undefined;
+    return (
+      (tokens.promptTokens * price.input +
+        tokens.completionTokens * price.output) /
+      1_000_000
+    );
+  };
+
+  const averageCall = (spec: ModelSpec) => ({
+    promptTokens: calls ? promptTokens / calls : DEFAULT_PROMPT_TOKENS,
+    completionTokens: spec.maxTokens || DEFAULT_COMPLETION_TOKENS,
+  });
+
+  const fits = (spec: ModelSpec, tokens: Parameters<typeof costOf>[1]) =>
+    budget.limit === undefined ||
+    spent + reserved + (costOf(spec, tokens) || 0) <= budget.limit;
+
+  return {
+    record(phase, spec, usage) {
+      // Some OpenAI-compatible servers don't report usage
+      const prompt = usage.promptTokens || 0;
+      const completion = usage.completionTokens || 0;
+      const cost = costOf(spec, {
+        promptTokens: prompt,
+        completionTokens: completion,
+      });
+
+      const key = `${phase}\0${modelLabel(spec)}`;
+      const entry = entries.get(key) || {
+        phase,
+        model: modelLabel(spec),
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: cost === undefined ? undefined : 0,
+      };
+      entry.calls++;
+      entry.promptTokens += prompt;
+      entry.completionTokens += completion;
+      if (cost !== undefined) entry.cost = (entry.cost || 0) + cost;
+      entries.set(key, entry);
+
+      spent += cost || 0;
+      calls++;
+      promptTokens += prompt;
+    },
+    reserve(spec, tokens) {
+      const estimate = costOf(spec, tokens) || 0;
+      if (!fits(spec, tokens)) {
+        throw new BudgetExceededError(budget.limit!, spent, estimate);
+      }
+      reserved += estimate;
+      return () => {
+        reserved -= estimate;
+      };
+    },
+    select(spec) {
+      if (budget.onExceed !== 'downgrade') return spec;
+      return fits(spec, averageCall(spec)) ? spec : budget.fallback;
+    },
+    report() {
+      return {
+        budget: budget.limit,
+        totalCost: spent,
+        entries: Array.from(entries.values()),
+      };
+    },
+  };
+}
+
+const estimateTokens = (value: unknown) =>
+  Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN);
+
+/**
+ * Records the tokens of every call that reaches the provider, and refuses
+ * calls the budget can't cover. Goes inside the cache middleware so cache
+ * hits are free.
+ */
+export function usageMiddleware(
+  tracker: UsageTracker,
+  phase: ModelPhase,
+  spec: ModelSpec
+): Experimental_LanguageModelV1Middleware {
+  return {
+    async wrapGenerate({ doGenerate, params }) {
+      const release = tracker.reserve(spec, {
+        promptTokens: estimateTokens(params.prompt),
+        completionTokens: params.maxTokens || DEFAULT_COMPLETION_TOKENS,
+      });
+      try {
+        const result = await doGenerate();
+        tracker.record(phase, spec, result.usage);
+        return result;
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+/** There's no embedding middleware, so this wraps the model by hand */
+export function trackEmbeddingModel(
+  model: EmbeddingModel<string>,
+  tracker: UsageTracker,
+  spec: ModelSpec
+): EmbeddingModel<string> {
+  return {
+    specificationVersion: 'v1',
+    provider: model.provider,
+    modelId: model.modelId,
+    maxEmbeddingsPerCall: model.maxEmbeddingsPerCall,
+    supportsParallelCalls: model.supportsParallelCalls,
+    async doEmbed(options) {
+      const release = tracker.reserve(spec, {
+        promptTokens: estimateTokens(options.values),
+        completionTokens: 0,
+      });
+      try {
+        const result = await model.doEmbed(options);
+        tracker.record('embedding', spec, {
+          promptTokens: result.usage?.tokens || 0,
+          completionTokens: 0,
+        });
+        return result;
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+const formatCost = (cost?: number) =>
+  cost === undefined ? '—' : `$${cost.toFixed(4)}`;
+
+export function formatUsageTable({ budget, totalCost, entries }: UsageReport) {
+  const table = new Table({
+    head: ['Phase', 'Model', 'Calls', 'Prompt', 'Completion', 'Cost'],
+    colAligns: ['left', 'left', 'right', 'right', 'right', 'right'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const entry of entries) {
+    table.push([
+      entry.phase,
+      entry.model,
+      entry.calls,
+      entry.promptTokens.toLocaleString('en-US'),
+      entry.completionTokens.toLocaleString('en-US'),
+      formatCost(entry.cost),
+    ]);
+  }
+
+  const sum = (key: 'calls' | 'promptTokens' | 'completionTokens') =>
+    entries.reduce((total, entry) => total + entry[key], 0);
+  table.push([
+    'total',
+    budget === undefined ? '' : `budget $${budget.toFixed(2)}`,
+    sum('calls'),
+    sum('promptTokens').toLocaleString('en-US'),
+    sum('completionTokens').toLocaleString('en-US'),
+    formatCost(totalCost),
+  ]);
+
+  return table.toString();
+}
+
+/** Adds up two reports, e.g. of a run and its resumption */
+export function mergeUsageReports(
+  previous: UsageReport,
+  report: UsageReport
+): UsageReport {
+  const byKey = new Map<string, UsageEntry>();
+  for (const entry of [...previous.entries, ...report.entries]) {
+    const key = `${entry.phase} ${entry.model}`;
+    const other = byKey.get(key);
+    byKey.set(
+      key,
+      other
+        ? {
+            ...other,
+            calls: other.calls + entry.calls,
+            promptTokens: other.promptTokens + entry.promptTokens,
+            completionTokens: other.completionTokens + entry.completionTokens,
+            cost:
+              other.cost === undefined || entry.cost === undefined
+                ? undefined
+                : other.cost + entry.cost,
+          }
+        : entry
+    );
+  }
+  return {
+    budget: report.budget,
+    totalCost: previous.totalCost + report.totalCost,
+    entries: Array.from(byKey.values()),
+  };
+}
+
+/**
+ * Writes a run's usage to `usage.json`. With `merge`, for a resumed run or
+ * a thread written from one, it's added to what the file already holds.
+ */
+export async function writeUsageReport(
+  runDir: string,
+  report: UsageReport,
+  { merge = false }: { merge?: boolean } = {}
+) {
+  const filePath = path.join(runDir, 'usage.json');
+  let merged = report;
+  if (merge) {
+    try {
+      const previous = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      merged = mergeUsageReports(previous, report);
+    } catch {
+      // Nothing recorded for this run yet
+    }
+  }
+  await fs.mkdir(runDir, { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(merged, null, 2), 'utf-8');
+  return filePath;
+}
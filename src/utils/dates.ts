@@ -0,0 +1,146 @@
+import { format } from 'date-fns/format';
+import { formatDistanceStrict } from 'date-fns/formatDistanceStrict';
+import {
+  Duration,
+  sub,
+  subDays,
+  subMonths,
+  subWeeks,
+  subYears,
+} from 'date-fns';
+
+export const recencies = ['day', 'week', 'month', 'year'] as const;
+export type Recency = (typeof recencies)[number];
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const MONTH =
+  '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)\\.?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const WEEKDAY = '(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\\.?,?\\s+)?';
+
+// 2024-03-03, optionally with a time and offset
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+// "3 March 2024" and RFC 2822's "Sun, 03 Mar 2024 10:00:00 GMT"
+const DAY_MONTH_YEAR = new RegExp(
+  `^${WEEKDAY}${DAY}\\s+${MONTH},?\\s+(\\d{4})(?:[\\s,T].*)?$`,
+  'i'
+);
+// "March 3, 2024", "Mar 3rd 2024" and "March 2024"
+const MONTH_DAY_YEAR = new RegExp(
+  `^${WEEKDAY}${MONTH}\\s+(?:${DAY},?\\s+)?(\\d{4})(?:[\\s,T].*)?$`,
+  'i'
+);
+// "3 days ago", as search engines date recent results
+const RELATIVE =
+  /^(an?|one|\d+)\s+(second|minute|min|hour|hr|day|week|month|year)s?\s+ago$/i;
+const RELATIVE_UNITS: Record<string, keyof Duration> = {
+  second: 'seconds',
+  minute: 'minutes',
+  min: 'minutes',
+  hour: 'hours',
+  hr: 'hours',
+  day: 'days',
+  week: 'weeks',
+  month: 'months',
+  year: 'years',
+};
+
+/** `YYYY-MM-DD`, or undefined when there's no such day */
+function calendarDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const monthNumber = (name: string) =>
+  MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Reads a date the way pages write it as `YYYY-MM-DD`: ISO 8601, RFC 2822
+ * or with the month written out ("March 3, 2024", "3 Mar 2024"). Relative
+ * dates like "3 days ago" are counted back from `now`, and only read when
+ * it's given. Undefined for anything else.
+ */
+export function parseDate(
+  value: string | undefined,
+  now?: Date
+): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  // The date as written, not shifted to another time zone
+  const iso = text.match(ISO_DATE);
+  if (iso) return calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dayFirst = text.match(DAY_MONTH_YEAR);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return calendarDate(Number(year), monthNumber(month), Number(day));
+  }
+  const monthFirst = text.match(MONTH_DAY_YEAR);
+  if (monthFirst) {
+    const [, month, day = '1', year] = monthFirst;
+    return calendarDate(Number(year), monthNumber(month), Number(day));
+  }
+
+  const relative = text.match(RELATIVE);
+  if (relative && now) {
+    const [, count, unit] = relative;
+    const amount = /^\d+$/.test(count) ? Number(count) : 1;
+    const units = RELATIVE_UNITS[unit.toLowerCase()];
+    return format(sub(now, { [units]: amount }), 'yyyy-MM-dd');
+  }
+  return undefined;
+}
+
+/**
+ * The earliest publication date research should use: `since` when set,
+ * otherwise `recency` back from `now`
+ */
+export function resolveSince(
+  { since, recency }: { since?: string; recency?: Recency },
+  now = new Date()
+): Date | undefined {
+  if (since) return new Date(since);
+  switch (recency) {
+    case 'day':
+      return subDays(now, 1);
+    case 'week':
+      return subWeeks(now, 1);
+    case 'month':
+      return subMonths(now, 1);
+    case 'year':
+      return subYears(now, 1);
+  }
+  return undefined;
+}
+
+/**
+ * "published 2024-03-03, 7 months ago", or "date unknown" when there's no
+ * date or it can't be read
+ */
+export function describeAge(publishedAt: string | undefined, now = new Date()) {
+  const date = publishedAt ? new Date(publishedAt) : undefined;
+  if (!date || isNaN(date.getTime())) return 'date unknown';
+  const age = formatDistanceStrict(date, now, {
+    addSuffix: true,
+    roundingMethod: 'floor',
+  });
+  return `published ${publishedAt}, ${age}`;
+}
@@ -0,0 +1,9 @@
+/**
+ * A line to append to a writing prompt so the model answers in `language`.
+ * The prompts are written in English, so English needs no instruction.
+ */
+export function languageInstruction(language: string) {
+  return /^(en|english)$/i.test(language.trim())
+    ? ''
+    : `\nWrite everything in ${language}, whatever the language of the sources.`;
+}
@@ -0,0 +1,52 @@
+// Plain-text measures for checking a post against its writing profile.
+// Markdown, links and citation markers are stripped before counting.
+
+function plainText(text: string) {
+  return text
+    .replace(/\[\^?S?\d+\]/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/[*_`#>]/g, '');
+}
+
+const wordsOf = (text: string) =>
+  plainText(text).match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+
+export function countWords(text: string) {
+  return wordsOf(text).length;
+}
+
+/**
+ * Vowel groups, less a silent final e. Off by one now and then, which
+ * averages out over a post.
+ */
+export function countSyllables(word: string) {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+}
+
+/**
+ * Flesch-Kincaid grade level: roughly the years of schooling needed to
+ * follow the text. 0 for text without words.
+ */
+export function fleschKincaidGrade(text: string) {
+  const words = wordsOf(text);
+  if (!words.length) return 0;
+  const sentences = Math.max(
+    1,
+    plainText(text)
+      .split(/[.!?]+(?:\s|$)|\n{2,}/)
+      .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence)).length
+  );
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade =
+    0.39 * (words.length / sentences) +
+    11.8 * (syllables / words.length) -
+    15.59;
+  return Math.round(grade * 10) / 10;
+}
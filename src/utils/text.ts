@@ -1,4 +1,4 @@
-import { chunk } from '../utils';
+import { chunk } from '../utils.js';
 
 export interface ChunkOptions {
   maxChunks?: number;
@@ -14,6 +14,30 @@ const DEFAULT_OPTIONS: Required<ChunkOptions> = {
   overlap: 200,       // More overlap between chunks
 };
 
+// Splits a segment longer than a chunk at word boundaries, cutting words
+// that are longer still
+function splitSegment(segment: string, size: number): string[] {
+  if (segment.length <= size) return [segment];
+  const words = segment
+    .split(/\s+/)
+    .flatMap((word) =>
+      Array.from({ length: Math.ceil(word.length / size) }, (_, i) =>
+        word.slice(i * size, (i + 1) * size)
+      )
+    );
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of words) {
+    if (current && current.length + word.length + 1 > size) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
 export function chunkText(text: string, options: ChunkOptions = {}): string[] {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   
@@ -23,16 +47,21 @@ export function chunkText(text: string, options: ChunkOptions = {}): string[] {
     .map(s => s.trim())
     .filter(s => s.length >= opts.minLength);
 
-  // Create overlapping chunks
+  // Create overlapping chunks, no longer than chunkSize
   let chunks: string[] = [];
   let currentChunk = '';
+  // About ten characters to a word
+  const overlapWords = Math.floor(opts.overlap / 10);
 
-  for (const segment of segments) {
-    if (currentChunk.length + segment.length > opts.chunkSize) {
+  for (const segment of segments.flatMap(s => splitSegment(s, opts.chunkSize))) {
+    if (currentChunk && currentChunk.length + segment.length + 1 > opts.chunkSize) {
       chunks.push(currentChunk.trim());
-      // Keep last part for overlap
-      const words = currentChunk.split(' ');
-      currentChunk = words.slice(-Math.floor(opts.overlap / 10)).join(' ');
+      // Keep last part for overlap, if it leaves room for the segment
+      const overlap = overlapWords
+        ? currentChunk.split(' ').slice(-overlapWords).join(' ')
+        : '';
+      currentChunk =
+        overlap.length + segment.length + 1 <= opts.chunkSize ? overlap : '';
     }
     currentChunk += ' ' + segment;
   }
@@ -0,0 +1,30 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { RenderedThread } from '../types.js';
+import { sanitizeFilename } from './filename.js';
+
+export function formatThreadText(thread: RenderedThread) {
+  return thread.tweets.map((tweet) => tweet.text).join('\n\n---\n\n') + '\n';
+}
+
+export async function writeThread(
+  thread: RenderedThread,
+  topic: string,
+  customPath?: string
+) {
+  const timestamp = new Date().toISOString().split('T')[0];
+  const filename = sanitizeFilename(`${timestamp}-${topic}`);
+  const basePath =
+    customPath || path.join(process.cwd(), 'output', `${filename}-thread`);
+
+  // Ensure the directory being written to exists
+  await fs.mkdir(path.dirname(basePath), { recursive: true });
+
+  const jsonPath = `${basePath}.json`;
+  const textPath = `${basePath}.txt`;
+
+  await fs.writeFile(jsonPath, JSON.stringify(thread, null, 2), 'utf-8');
+  await fs.writeFile(textPath, formatThreadText(thread), 'utf-8');
+
+  return { jsonPath, textPath };
+}
@@ -0,0 +1,101 @@
+export const TWEET_MAX_LENGTH = 280;
+
+// X shortens every link to a t.co URL of this length, whatever the original
+const TRANSFORMED_URL_LENGTH = 23;
+
+// Code point ranges X counts as a single character; everything else
+// (CJK, emoji, ...) counts as two. Mirrors the twitter-text v3 config.
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+function codePointWeight(codePoint: number) {
+  return SINGLE_WEIGHT_RANGES.some(
+    ([start, end]) => codePoint >= start && codePoint <= end
+  )
+    ? 1
+    : 2;
+}
+
+/**
+ * Counts a tweet the way X does: NFC-normalized, URLs weighted as
+ * t.co links and wide characters counted twice.
+ */
+export function countTweetLength(text: string): number {
+  const normalized = text.normalize('NFC');
+  const urls = normalized.match(URL_PATTERN) || [];
+  const withoutUrls = normalized.replace(URL_PATTERN, '');
+
+  let length = urls.length * TRANSFORMED_URL_LENGTH;
+  for (const char of withoutUrls) {
+    length += codePointWeight(char.codePointAt(0) || 0);
+  }
+  return length;
+}
+
+export function fitsInTweet(text: string, maxLength = TWEET_MAX_LENGTH) {
+  return countTweetLength(text) <= maxLength;
+}
+
+/**
+ * Mechanically splits text into tweet-sized pieces, preferring sentence
+ * boundaries, then word boundaries. Used as a last resort when the model
+ * keeps overshooting the character budget.
+ */
+export function splitTweet(text: string, maxLength = TWEET_MAX_LENGTH): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const push = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = '';
+  };
+
+  const append = (segment: string, separator: string) => {
+    const candidate = current ? `${current}${separator}${segment}` : segment;
+    if (fitsInTweet(candidate, maxLength)) {
+      current = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (append(sentence, ' ')) continue;
+    push();
+    if (append(sentence, ' ')) continue;
+
+    // Sentence alone is too long, fall back to words
+    for (const word of sentence.split(/\s+/)) {
+      if (append(word, ' ')) continue;
+      push();
+      if (!append(word, ' ')) {
+        // A single word longer than a tweet, cut it hard
+        let rest = word;
+        while (rest) {
+          let end = Math.min(rest.length, maxLength);
+          while (end > 1 && !fitsInTweet(rest.slice(0, end), maxLength)) end--;
+          pieces.push(rest.slice(0, end));
+          rest = rest.slice(end);
+        }
+      }
+    }
+  }
+  push();
+
+  return pieces;
+}
+
+/** Cuts text down to fit, ending it with an ellipsis. Empty if nothing fits */
+export function truncateTweet(text: string, maxLength = TWEET_MAX_LENGTH) {
+  if (fitsInTweet(text, maxLength)) return text;
+  const chars = Array.from(text);
+  const cut = () => `${chars.join('').trimEnd()}…`;
+  while (chars.length && !fitsInTweet(cut(), maxLength)) chars.pop();
+  return chars.length ? cut() : '';
+}
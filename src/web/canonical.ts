@@ -0,0 +1,46 @@
+// Query parameters that track a click rather than pick the content
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^(fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|yclid|_hsenc|_hsmi)$/,
+  /^(ref|ref_src|cmpid|smid|sr_share|ncid)$/,
+  /^(amp|outputType)$/,
+];
+
+/**
+ * Reduces a URL to a key that's the same for every variant of a page:
+ * scheme, `www.`, fragments, tracking parameters, AMP versions and
+ * trailing slashes are all dropped. The key is for comparing, not
+ * fetching. Unparsable URLs are returned as they are.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const host = parsed.hostname
+    .toLowerCase()
+    .replace(/^(www|amp|m)\./, '')
+    // Google's AMP cache: example-com.cdn.ampproject.org/c/s/example.com/...
+    .replace(/\.cdn\.ampproject\.org$/, '');
+  let pathname = parsed.pathname;
+  if (parsed.hostname.endsWith('.cdn.ampproject.org')) {
+    const original = pathname.match(/^\/[a-z]\/(?:s\/)?(.+)$/);
+    if (original) {
+      return canonicalizeUrl(`https://${original[1]}${parsed.search}`);
+    }
+  }
+  pathname = pathname
+    .replace(/\/amp\/?$|\.amp(?=\.html?$|$)/, '')
+    .replace(/\/index\.html?$/, '')
+    .replace(/\/+$/, '');
+
+  const params = Array.from(parsed.searchParams)
+    .filter(([name]) => !TRACKING_PARAMS.some((param) => param.test(name)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params)}` : '';
+
+  return `${host}${pathname}${query}`;
+}
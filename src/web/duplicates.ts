@@ -0,0 +1,65 @@
+// Words per shingle. Five is long enough that unrelated pages rarely share
+// one, and short enough to survive light edits of a syndicated story
+const SHINGLE_WORDS = 5;
+// Hash functions in a MinHash signature. The similarity estimate is off
+// by about 1/sqrt(n)
+const SIGNATURE_SIZE = 128;
+
+// FNV-1a, 32 bit
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// MurmurHash3's finalizer, so every seed orders the shingles differently
+function mix(h: number) {
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Fixed seeds, so signatures from different runs can be compared
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) =>
+  hash(`seed-${i}`)
+);
+
+/** The set of overlapping word runs in a text, ignoring case and markup */
+export function shingles(text: string, size = SHINGLE_WORDS): Set<number> {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  const result = new Set<number>();
+  for (let i = 0; i + size <= Math.max(words.length, size); i++) {
+    result.add(hash(words.slice(i, i + size).join(' ')));
+  }
+  return result;
+}
+
+/**
+ * A MinHash signature: for each seed, the smallest hash of any shingle.
+ * Two signatures agree at a position about as often as the shingle sets
+ * overlap (their Jaccard similarity).
+ */
+export function minhash(text: string): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles(text)) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+/** Estimated Jaccard similarity of two texts' shingles, 0 to 1 */
+export function similarity(a: Uint32Array, b: Uint32Array) {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
@@ -0,0 +1,500 @@
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { parseDate } from '../utils/dates.js';
+
+export interface PageMetadata {
+  title?: string;
+  canonicalUrl?: string;
+  author?: string;
+  publishedAt?: string;
+  description?: string;
+  siteName?: string;
+}
+
+export interface ExtractedPage {
+  /** Main content as markdown, keeping headings, lists, tables and code */
+  markdown: string;
+  metadata: PageMetadata;
+}
+
+// Elements that never hold article content
+const REMOVE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'svg',
+  'canvas',
+  'form',
+  'button',
+  'input',
+  'select',
+  'nav',
+  'aside',
+  'footer',
+  'dialog',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[aria-hidden="true"]',
+  '[hidden]',
+];
+
+// Class/id heuristics, adapted from Mozilla's Readability
+const UNLIKELY_PATTERN =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|gdpr|header|legends|menu|modal|newsletter|outbrain|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|taboola|tweet|twitter|widget/i;
+const MAYBE_CANDIDATE_PATTERN = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_PATTERN =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|story|text|blog/i;
+const NEGATIVE_PATTERN =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|byline|combx|comment|com-|contact|cookie|footer|gdpr|masthead|media|meta|modal|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+const SCORED_TAGS = new Set(['P', 'PRE', 'TD', 'BLOCKQUOTE', 'LI', 'DD']);
+const BLOCK_TAGS =
+  /^(H[1-6]|P|PRE|UL|OL|DL|TABLE|BLOCKQUOTE|HR|FIGURE|DIV|SECTION|ARTICLE|MAIN|HEADER)$/;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+function matchString(el: Element) {
+  return `${el.className} ${el.id}`;
+}
+
+function classWeight(el: Element) {
+  let weight = 0;
+  if (el.className && typeof el.className === 'string') {
+    if (NEGATIVE_PATTERN.test(el.className)) weight -= 25;
+    if (POSITIVE_PATTERN.test(el.className)) weight += 25;
+  }
+  if (el.id) {
+    if (NEGATIVE_PATTERN.test(el.id)) weight -= 25;
+    if (POSITIVE_PATTERN.test(el.id)) weight += 25;
+  }
+  return weight;
+}
+
+function tagWeight(el: Element) {
+  switch (el.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      return 10;
+    case 'DIV':
+    case 'SECTION':
+      return 5;
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      return 3;
+    case 'ADDRESS':
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'DD':
+    case 'DT':
+    case 'LI':
+      return -3;
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+    case 'TH':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+function textOf(el: Element) {
+  return (el.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function linkDensity(el: Element) {
+  const length = textOf(el).length;
+  if (!length) return 0;
+  const linkLength = Array.from(el.querySelectorAll('a')).reduce(
+    (sum, link) => sum + textOf(link).length,
+    0
+  );
+  return linkLength / length;
+}
+
+function removeClutter(document: Document) {
+  for (const el of Array.from(
+    document.querySelectorAll(REMOVE_SELECTORS.join(','))
+  )) {
+    el.remove();
+  }
+
+  // Page-level headers hold navigation; headers inside articles hold titles
+  for (const el of Array.from(document.querySelectorAll('header'))) {
+    if (!el.closest('article')) el.remove();
+  }
+
+  for (const el of Array.from(document.body.querySelectorAll('*'))) {
+    const match = matchString(el);
+    if (
+      el.tagName !== 'BODY' &&
+      el.tagName !== 'ARTICLE' &&
+      el.tagName !== 'MAIN' &&
+      UNLIKELY_PATTERN.test(match) &&
+      !MAYBE_CANDIDATE_PATTERN.test(match) &&
+      !el.closest('table, pre, code')
+    ) {
+      el.remove();
+    }
+  }
+}
+
+/**
+ * Scores every block that contains paragraph text and returns the one that
+ * most looks like the main content: lots of text, commas and positive
+ * class names, few links.
+ */
+function findMainContent(document: Document): Element {
+  const scores = new Map<Element, number>();
+
+  const initialize = (el: Element) => {
+    if (!scores.has(el)) scores.set(el, tagWeight(el) + classWeight(el));
+  };
+
+  for (const el of Array.from(document.body.querySelectorAll('*'))) {
+    if (!SCORED_TAGS.has(el.tagName)) continue;
+    const text = textOf(el);
+    if (text.length < 25) continue;
+
+    // One point per comma-separated clause, up to three for length
+    const score =
+      text.split(/[,，、]/).length +
+      Math.min(Math.floor(text.length / 100), 3);
+
+    // Parents get full credit, ancestors progressively less
+    let ancestor = el.parentElement;
+    for (let level = 0; ancestor && level < 3; level++) {
+      initialize(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+      ancestor = ancestor.parentElement;
+    }
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  if (!best || best.tagName === 'HTML') return document.body;
+
+  // Content is often split across sibling blocks, pull in the good ones
+  const parent = best.parentElement;
+  if (!parent || parent.tagName === 'HTML') return best;
+
+  const threshold = Math.max(10, bestScore * 0.2);
+  const siblings = Array.from(parent.children).filter((sibling) => {
+    if (sibling === best) return true;
+    const score = scores.get(sibling);
+    const adjusted =
+      score === undefined ? 0 : score * (1 - linkDensity(sibling));
+    if (adjusted >= threshold) return true;
+    // Plain paragraphs next to the content usually belong to it
+    const text = textOf(sibling);
+    return (
+      sibling.tagName === 'P' &&
+      text.length > 80 &&
+      linkDensity(sibling) < 0.25
+    );
+  });
+
+  if (siblings.length === 1) return best;
+  const wrapper = document.createElement('div');
+  for (const sibling of siblings) wrapper.appendChild(sibling.cloneNode(true));
+  return wrapper;
+}
+
+function inlineMarkdown(node: Node): string {
+  if (node.nodeType === TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const children = () =>
+    Array.from(el.childNodes).map(inlineMarkdown).join('');
+
+  switch (el.tagName) {
+    case 'BR':
+      return '\n';
+    case 'CODE':
+      return `\`${(el.textContent || '').trim()}\``;
+    case 'STRONG':
+    case 'B': {
+      const text = children().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'EM':
+    case 'I': {
+      const text = children().trim();
+      return text ? `*${text}*` : '';
+    }
+    case 'IMG':
+      return '';
+    default:
+      return children();
+  }
+}
+
+function tableMarkdown(table: Element) {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .map((row) =>
+      Array.from(row.children)
+        .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+        .map((cell) => inlineMarkdown(cell).trim().replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.length);
+  if (!rows.length) return '';
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const pad = (cells: string[]) =>
+    `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+
+  return [
+    pad(rows[0]),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(pad),
+  ].join('\n');
+}
+
+function listMarkdown(list: Element, depth: number): string {
+  const ordered = list.tagName === 'OL';
+  return Array.from(list.children)
+    .filter((item) => item.tagName === 'LI')
+    .map((item, i) => {
+      const bullet = ordered ? `${i + 1}.` : '-';
+      const nested = Array.from(item.children).filter(
+        (child) => child.tagName === 'UL' || child.tagName === 'OL'
+      );
+      const text = Array.from(item.childNodes)
+        .filter((child) => !nested.includes(child as Element))
+        .map(inlineMarkdown)
+        .join('')
+        .trim();
+      const lines = [`${'  '.repeat(depth)}${bullet} ${text}`];
+      for (const child of nested) lines.push(listMarkdown(child, depth + 1));
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+function blockMarkdown(node: Node): string[] {
+  if (node.nodeType === TEXT_NODE) {
+    const text = (node.textContent || '').trim();
+    return text ? [text.replace(/\s+/g, ' ')] : [];
+  }
+  if (node.nodeType !== ELEMENT_NODE) return [];
+
+  const el = node as Element;
+  const tag = el.tagName;
+
+  if (/^H[1-6]$/.test(tag)) {
+    const text = inlineMarkdown(el).trim();
+    return text ? [`${'#'.repeat(Number(tag[1]))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case 'P': {
+      const text = inlineMarkdown(el).trim();
+      return text ? [text] : [];
+    }
+    case 'PRE': {
+      const code = el.querySelector('code');
+      const language =
+        (code?.className.match(/language-(\S+)/) || [])[1] || '';
+      const source = (el.textContent || '').trimEnd();
+      return [`\`\`\`${language}\n${source}\n\`\`\``];
+    }
+    case 'UL':
+    case 'OL':
+      return [listMarkdown(el, 0)];
+    case 'TABLE':
+      return [tableMarkdown(el)];
+    case 'BLOCKQUOTE':
+      return [
+        Array.from(el.childNodes)
+          .flatMap(blockMarkdown)
+          .join('\n\n')
+          .split('\n')
+          .map((line) => `> ${line}`)
+          .join('\n'),
+      ];
+    case 'HR':
+      return ['---'];
+    case 'FIGURE': {
+      const caption = el.querySelector('figcaption');
+      return caption ? [inlineMarkdown(caption).trim()] : [];
+    }
+    default: {
+      // Containers: recurse, but keep runs of inline content together
+      const blocks: string[] = [];
+      let inline = '';
+      for (const child of Array.from(el.childNodes)) {
+        const isBlock =
+          child.nodeType === ELEMENT_NODE &&
+          BLOCK_TAGS.test((child as Element).tagName);
+        if (isBlock) {
+          if (inline.trim()) blocks.push(inline.trim());
+          inline = '';
+          blocks.push(...blockMarkdown(child));
+        } else {
+          inline += inlineMarkdown(child);
+        }
+      }
+      if (inline.trim()) blocks.push(inline.trim());
+      return blocks;
+    }
+  }
+}
+
+function meta(document: Document, ...names: string[]) {
+  for (const name of names) {
+    const el = document.querySelector(
+      ['property', 'name', 'itemprop']
+        .map((attribute) => `meta[${attribute}="${name}"]`)
+        .join(', ')
+    );
+    const content = el?.getAttribute('content')?.trim();
+    if (content) return content;
+  }
+  return undefined;
+}
+
+interface JsonLdNode {
+  '@type'?: string | string[];
+  '@graph'?: JsonLdNode[];
+  headline?: string;
+  datePublished?: string;
+  author?: { name?: string } | { name?: string }[] | string;
+}
+
+function readJsonLd(document: Document): JsonLdNode[] {
+  return Array.from(
+    document.querySelectorAll('script[type="application/ld+json"]')
+  ).flatMap((script) => {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const nodes: JsonLdNode[] = Array.isArray(data) ? data : [data];
+      return nodes.flatMap((node) => [node, ...(node['@graph'] || [])]);
+    } catch {
+      return [];
+    }
+  });
+}
+
+function jsonLdAuthor(author: JsonLdNode['author']) {
+  if (!author) return undefined;
+  if (typeof author === 'string') return author;
+  const authors = Array.isArray(author) ? author : [author];
+  const names = authors.map((a) => a.name).filter(Boolean);
+  return names.length ? names.join(', ') : undefined;
+}
+
+// The article's own <time> before any in comments or related links
+function timeElement(document: Document) {
+  for (const selector of [
+    'time[itemprop="datePublished"]',
+    'time[pubdate]',
+    'article time[datetime]',
+    'time[datetime]',
+  ]) {
+    const time = document.querySelector(selector);
+    const value = time?.getAttribute('datetime') || time?.textContent;
+    if (value?.trim()) return value;
+  }
+  return undefined;
+}
+
+function extractMetadata(document: Document, url: string): PageMetadata {
+  const article = readJsonLd(document).find((node) => {
+    const types = ([] as string[]).concat(node['@type'] || []);
+    return types.some((type) => /Article|BlogPosting|Report/.test(type));
+  });
+
+  const canonical = document
+    .querySelector('link[rel="canonical"]')
+    ?.getAttribute('href');
+  let canonicalUrl: string | undefined;
+  try {
+    canonicalUrl = canonical ? new URL(canonical, url).toString() : undefined;
+  } catch {
+    canonicalUrl = undefined;
+  }
+
+  return {
+    title:
+      meta(document, 'og:title', 'twitter:title') ||
+      article?.headline ||
+      document.title?.trim() ||
+      undefined,
+    canonicalUrl,
+    author:
+      meta(document, 'author', 'article:author', 'parsely-author') ||
+      jsonLdAuthor(article?.author),
+    publishedAt: parseDate(
+      meta(
+        document,
+        'article:published_time',
+        'og:published_time',
+        'datePublished',
+        'pubdate',
+        'publish-date',
+        'dc.date'
+      ) ||
+        article?.datePublished ||
+        timeElement(document)
+    ),
+    description: meta(
+      document,
+      'og:description',
+      'description',
+      'twitter:description'
+    ),
+    siteName: meta(document, 'og:site_name', 'application-name'),
+  };
+}
+
+/**
+ * Pulls the main content out of an HTML page as structured markdown,
+ * along with its metadata. Pure and network-free, so it can be run against
+ * saved HTML.
+ */
+export function extractContent(html: string, url: string): ExtractedPage {
+  // Setup virtual console
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('error', () => {
+    // No-op to skip console errors
+  });
+
+  const { document } = new JSDOM(html, { url, virtualConsole }).window;
+
+  // Metadata lives in <head> and JSON-LD scripts, read it before cleanup
+  const metadata = extractMetadata(document, url);
+
+  removeClutter(document);
+  const main = findMainContent(document);
+
+  const markdown = blockMarkdown(main)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { markdown, metadata };
+}
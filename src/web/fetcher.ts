@@ -0,0 +1,243 @@
+import fetch, { AbortError, FetchError } from 'node-fetch';
+import PQueue from 'p-queue';
+import { Cache } from '../cache.js';
+import { Config } from '../config.js';
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  RobotsRules,
+  isAllowed,
+  parseRobots,
+} from './robots.js';
+
+export type FetcherOptions = Config['scrape'];
+
+export interface FetchedResponse {
+  /** Where the body came from after following redirects */
+  url: string;
+  contentType?: string;
+  body: Buffer;
+}
+
+export interface Fetcher {
+  /**
+   * GETs `url` once robots.txt allows it and a slot is free both overall
+   * and for its host. Follows redirects and retries rate limits and server
+   * errors. Throws on anything else that isn't a 2xx.
+   */
+  fetch(url: string): Promise<FetchedResponse>;
+}
+
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+// Crawlers may stop reading robots.txt after 500 KiB (RFC 9309), and
+// what's past that is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** The first `limit` bytes of a body, without reading the rest */
+async function readPrefix(
+  body: AsyncIterable<string | Buffer> | null,
+  limit: number
+) {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  if (body) {
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk));
+      length += chunk.length;
+      // Leaving the loop destroys the stream
+      if (length >= limit) break;
+    }
+  }
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
+function backoff(attempt: number, retryAfter?: number) {
+  const exponential = BASE_RETRY_DELAY * 2 ** attempt * (1 + Math.random());
+  return Math.min(MAX_RETRY_DELAY, retryAfter ?? exponential);
+}
+
+export function createFetcher(
+  options: FetcherOptions,
+  { cache, signal }: { cache?: Cache; signal?: AbortSignal } = {}
+): Fetcher {
+  const { userAgent, timeout, maxBytes, maxRedirects, retries } = options;
+  const global = new PQueue({ concurrency: options.concurrency });
+  const hosts = new Map<string, PQueue>();
+  const robots = new Map<string, Promise<RobotsRules>>();
+
+  /**
+   * GETs `url`, throwing when the body is larger than `size`, or with
+   * `truncate` keeping only its first `size` bytes
+   */
+  async function request(
+    url: string,
+    { size = maxBytes, follow = false, truncate = false } = {}
+  ) {
+    const abortController = new AbortController();
+    const timer = setTimeout(() => abortController.abort(), timeout);
+    const requestSignal = signal
+      ? AbortSignal.any([abortController.signal, signal])
+      : abortController.signal;
+
+    try {
+      // `size` makes node-fetch abort bodies that grow past the cap
+      const response = await fetch(url, {
+        signal: requestSignal,
+        headers: { 'User-Agent': userAgent },
+        redirect: follow ? 'follow' : 'manual',
+        follow: maxRedirects,
+        ...(!truncate && { size }),
+      });
+      if (truncate) {
+        return { response, body: await readPrefix(response.body, size) };
+      }
+      const length = Number(response.headers.get('content-length'));
+      if (length > size) {
+        throw new Error(`Response too large: ${length} bytes`);
+      }
+      return {
+        response,
+        body: Buffer.from(await response.arrayBuffer()),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function loadRobots(origin: string): Promise<RobotsRules> {
+    const { response, body } = await request(`${origin}/robots.txt`, {
+      size: MAX_ROBOTS_BYTES,
+      follow: true,
+      truncate: true,
+    });
+    // Server errors are thrown, and so not cached, since they're likely
+    // to pass
+    if (response.status >= 500) {
+      throw new Error(`robots.txt returned ${response.status}`);
+    }
+    // A missing robots.txt places no restrictions
+    if (!response.ok) return ALLOW_ALL;
+    let text = body.toString('utf-8');
+    // A cut-off last line could read as a shorter, broader rule
+    if (body.length >= MAX_ROBOTS_BYTES) {
+      text = text.slice(0, text.lastIndexOf('\n') + 1);
+    }
+    return parseRobots(text, userAgent);
+  }
+
+  function robotsFor(origin: string) {
+    if (!options.respectRobots) return Promise.resolve(ALLOW_ALL);
+
+    let rules = robots.get(origin);
+    if (!rules) {
+      const compute = () =>
+        global.add(() => loadRobots(origin), { throwOnTimeout: true });
+      rules = (
+        cache ? cache.wrap('robots', { origin, userAgent }, compute) : compute()
+      ).catch(
+        // RFC 9309: an unreachable robots.txt means nothing may be crawled
+        () => DISALLOW_ALL
+      );
+      robots.set(origin, rules);
+    }
+    return rules;
+  }
+
+  function hostQueue(host: string, rules: RobotsRules) {
+    let queue = hosts.get(host);
+    if (!queue) {
+      const delay = Math.max(
+        options.perHostDelay,
+        (rules.crawlDelay || 0) * 1000
+      );
+      queue = new PQueue({
+        concurrency: options.perHostConcurrency,
+        ...(delay > 0 && { interval: delay, intervalCap: 1 }),
+      });
+      hosts.set(host, queue);
+    }
+    return queue;
+  }
+
+  async function fetchWithRetries(url: string) {
+    const { origin, host } = new URL(url);
+    const rules = await robotsFor(origin);
+    if (!isAllowed(rules, url)) {
+      throw new Error(`Disallowed by ${origin}/robots.txt`);
+    }
+    const queue = hostQueue(host, rules);
+
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      let result: Awaited<ReturnType<typeof request>>;
+      try {
+        result = await queue.add(
+          () => global.add(() => request(url), { throwOnTimeout: true }),
+          { throwOnTimeout: true }
+        );
+      } catch (error) {
+        // An aborted run isn't a timeout, so it's never retried
+        signal?.throwIfAborted();
+        // Timeouts and dropped connections are worth another try, an
+        // oversized body isn't
+        const transient =
+          error instanceof AbortError ||
+          (error instanceof FetchError && error.type === 'system');
+        if (!transient || attempt >= retries) throw error;
+        await sleep(backoff(attempt));
+        continue;
+      }
+
+      const { status, headers } = result.response;
+      if (!RETRY_STATUSES.has(status) || attempt >= retries) return result;
+      await sleep(
+        backoff(attempt, parseRetryAfter(headers.get('retry-after')))
+      );
+    }
+  }
+
+  return {
+    async fetch(url) {
+      let currentUrl = url;
+
+      for (let redirects = 0; ; redirects++) {
+        const { response, body } = await fetchWithRetries(currentUrl);
+        const location = response.headers.get('location');
+
+        if (REDIRECT_STATUSES.has(response.status) && location) {
+          if (redirects >= maxRedirects) {
+            throw new Error(`Too many redirects (${maxRedirects})`);
+          }
+          // Each hop is a new request, so it's checked against the
+          // robots.txt and limits of the host it lands on
+          currentUrl = new URL(location, currentUrl).toString();
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        return {
+          url: currentUrl,
+          contentType: response.headers.get('content-type') || undefined,
+          body,
+        };
+      }
+    },
+  };
+}
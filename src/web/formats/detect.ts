@@ -0,0 +1,53 @@
+export type DocumentFormat = 'html' | 'pdf' | 'text' | 'markdown' | 'json';
+
+const MIME_FORMATS: [RegExp, DocumentFormat][] = [
+  [/^(application|text)\/(.+\+)?json\b/, 'json'],
+  [/^text\/(markdown|x-markdown)\b/, 'markdown'],
+  [/^text\/html\b|^application\/xhtml\+xml\b/, 'html'],
+  [/^text\/plain\b/, 'text'],
+];
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  json: 'json',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  html: 'html',
+  htm: 'html',
+};
+
+function extensionOf(url: string) {
+  const match = new URL(url).pathname.match(/\.([a-z0-9]+)$/i);
+  return match?.[1].toLowerCase();
+}
+
+/**
+ * Works out what a response is. Servers often send `text/plain` or
+ * `application/octet-stream` for PDFs and markdown, so a PDF is recognised
+ * by its header alone, and otherwise the Content-Type header wins over the
+ * URL's file extension. Anything unrecognised is treated as HTML.
+ */
+export function detectFormat(
+  body: Uint8Array,
+  contentType: string | undefined,
+  url: string
+): DocumentFormat {
+  // PDF readers accept junk before the header, so look past the start.
+  // A `.pdf` URL without the header is usually an HTML paywall or error.
+  const head = new TextDecoder().decode(body.subarray(0, 1024));
+  if (head.includes('%PDF-')) return 'pdf';
+
+  const mime = contentType?.toLowerCase().trim() || '';
+  const extension = extensionOf(url);
+  const byMime = MIME_FORMATS.find(([pattern]) => pattern.test(mime))?.[1];
+
+  // text/plain is also what static hosts serve markdown and JSON as
+  if (byMime && byMime !== 'text') return byMime;
+  if (extension && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension];
+  }
+  if (byMime) return byMime;
+
+  if (/^\s*[[{]/.test(head)) return 'json';
+  return 'html';
+}
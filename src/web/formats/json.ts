@@ -0,0 +1,24 @@
+import { ExtractedPage } from '../extract.js';
+
+function flatten(value: unknown, prefix: string, lines: string[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flatten(item, `${prefix}[${i}]`, lines));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix ? `${prefix}.${key}` : key, lines);
+    }
+  } else if (value !== null && value !== undefined && value !== '') {
+    lines.push(`- ${prefix || 'value'}: ${String(value)}`);
+  }
+}
+
+/**
+ * Flattens a JSON document into one `path.to.key: value` line per leaf so
+ * the model can read API responses and datasets as text.
+ */
+export function extractJson(text: string): ExtractedPage {
+  const lines: string[] = [];
+  flatten(JSON.parse(text), '', lines);
+
+  return { markdown: lines.join('\n'), metadata: {} };
+}
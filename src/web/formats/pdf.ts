@@ -0,0 +1,66 @@
+import { getDocumentProxy } from 'unpdf';
+import { ExtractedPage } from '../extract.js';
+
+// unpdf's declarations don't resolve under NodeNext, leaving the text
+// content untyped. Marked content items have neither field.
+interface PdfTextItem {
+  str?: string;
+  hasEOL?: boolean;
+}
+
+// PDF dates look like D:20230415093000+02'00'
+function parsePdfDate(value: unknown) {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^D:(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+  const [, year, month = '01', day = '01'] = match;
+  return `${year}-${month}-${day}`;
+}
+
+function stringField(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Extracts the text of the first `maxPages` pages, one paragraph per
+ * text line break, plus the document's title, author and creation date.
+ */
+export async function extractPdf(
+  data: Uint8Array,
+  { maxPages }: { maxPages: number }
+): Promise<ExtractedPage> {
+  const pdf = await getDocumentProxy(data);
+
+  try {
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    const pages: string[] = [];
+    for (let number = 1; number <= pageCount; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      const text = (items as PdfTextItem[])
+        .map((item) => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+      if (text) pages.push(text);
+    }
+
+    if (pdf.numPages > pageCount) {
+      pages.push(`[Truncated after ${pageCount} of ${pdf.numPages} pages]`);
+    }
+
+    const info = (await pdf.getMetadata()).info as Record<string, unknown>;
+
+    return {
+      markdown: pages.join('\n\n'),
+      metadata: {
+        title: stringField(info.Title),
+        author: stringField(info.Author),
+        publishedAt: parsePdfDate(info.CreationDate),
+      },
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
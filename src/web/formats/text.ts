@@ -0,0 +1,20 @@
+import { ExtractedPage } from '../extract.js';
+
+/**
+ * Plain text and markdown are already what the pipeline wants, only the
+ * title is worth pulling out.
+ */
+export function extractPlainText(text: string): ExtractedPage {
+  const markdown = text.replace(/\r\n?/g, '\n').trim();
+  const heading = markdown.match(/^#\s+(.+)$/m);
+  const firstLine = markdown.split('\n', 1)[0]?.trim();
+
+  return {
+    markdown,
+    metadata: {
+      title:
+        heading?.[1].trim() ||
+        (firstLine?.length < 120 ? firstLine : undefined),
+    },
+  };
+}
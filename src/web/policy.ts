@@ -0,0 +1,126 @@
+import { Config } from '../config.js';
+
+export type DomainPolicyOptions = Config['sources'];
+
+/** How much a domain is trusted, best first */
+export type DomainTier =
+  'preferred' | 'primary' | 'reputable' | 'unknown' | 'low';
+
+// Governments, universities, standards bodies and journals
+const PRIMARY_DOMAINS = [
+  '*.gov',
+  'gov.uk',
+  '*.gov.*',
+  '*.edu',
+  '*.edu.*',
+  '*.ac.uk',
+  '*.int',
+  'europa.eu',
+  'arxiv.org',
+  'nature.com',
+  'science.org',
+  'acm.org',
+  'ieee.org',
+  'w3.org',
+  'ietf.org',
+];
+
+// Newsrooms and references with editorial standards
+const REPUTABLE_DOMAINS = [
+  'reuters.com',
+  'apnews.com',
+  'bbc.com',
+  'bbc.co.uk',
+  'nytimes.com',
+  'theguardian.com',
+  'ft.com',
+  'economist.com',
+  'wsj.com',
+  'bloomberg.com',
+  'arstechnica.com',
+  'wired.com',
+  'technologyreview.com',
+  'wikipedia.org',
+  'github.com',
+  'stackoverflow.com',
+  'developer.mozilla.org',
+];
+
+// Aggregators and content farms that rank well and say little
+const LOW_DOMAINS = [
+  'pinterest.*',
+  'quora.com',
+  'answers.com',
+  'ehow.com',
+  'wikihow.com',
+  'scribd.com',
+  'slideshare.net',
+  'coursehero.com',
+];
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether `host` matches a domain pattern. A plain domain matches itself
+ * and its subdomains. `*` matches anything, so `*.gov` matches every .gov
+ * host and `pinterest.*` every Pinterest country site.
+ */
+export function matchesDomain(pattern: string, host: string): boolean {
+  const hostname = host.toLowerCase().replace(/^www\./, '');
+  const domain = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^www\./, '');
+  if (!domain.includes('*')) {
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  const regex = new RegExp(
+    `^${domain.split('*').map(escapeRegExp).join('.*')}$`
+  );
+  return regex.test(hostname);
+}
+
+const matchesAny = (patterns: string[], host: string) =>
+  patterns.find((pattern) => matchesDomain(pattern, host));
+
+export interface DomainPolicy {
+  /** Why a URL can't be used, or undefined if it can */
+  exclude(url: string): string | undefined;
+  tier(url: string): DomainTier;
+}
+
+export function createDomainPolicy({
+  allow,
+  block,
+  prefer,
+}: DomainPolicyOptions): DomainPolicy {
+  const hostOf = (url: string) => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  };
+
+  return {
+    exclude(url) {
+      const host = hostOf(url);
+      if (!host) return 'invalid URL';
+      const blocked = matchesAny(block, host);
+      if (blocked) return `blocked by ${blocked}`;
+      if (allow.length && !matchesAny(allow, host)) {
+        return 'not in the allow list';
+      }
+      return undefined;
+    },
+    tier(url) {
+      const host = hostOf(url);
+      if (matchesAny(prefer, host)) return 'preferred';
+      if (matchesAny(PRIMARY_DOMAINS, host)) return 'primary';
+      if (matchesAny(REPUTABLE_DOMAINS, host)) return 'reputable';
+      if (matchesAny(LOW_DOMAINS, host)) return 'low';
+      return 'unknown';
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { format } from 'date-fns/format';
+import fetch from 'node-fetch';
+
+import { SearchProvider } from '../../types.js';
+import { parseDate } from '../../utils/dates.js';
+
+export interface BraveProviderOptions {
+  apiKey?: string;
+}
+
+interface BraveResponse {
+  web?: {
+    results?: {
+      title: string;
+      url: string;
+      description?: string;
+      page_age?: string;
+    }[];
+  };
+}
+
+export function createBraveProvider({
+  apiKey = process.env.BRAVE_API_KEY,
+}: BraveProviderOptions = {}): SearchProvider {
+  if (!apiKey) {
+    throw new Error('BRAVE_API_KEY environment variable is required');
+  }
+
+  return {
+    name: 'brave',
+    async search(query, { num = 5, since, now } = {}) {
+      const url = new URL('https://api.search.brave.com/res/v1/web/search');
+      url.searchParams.set('q', query);
+      // Brave caps a single page at 20 results
+      url.searchParams.set('count', String(Math.min(num, 20)));
+      if (since) {
+        const range = [since, new Date()].map((date) =>
+          format(date, 'yyyy-MM-dd')
+        );
+        url.searchParams.set('freshness', range.join('to'));
+      }
+
+      const response = await fetch(url.toString(), {
+        headers: {
+          Accept: 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Brave search failed with status ${response.status}`);
+      }
+
+      const data = (await response.json()) as BraveResponse;
+      return (data.web?.results || []).map((result) => ({
+        title: result.title,
+        link: result.url,
+        snippet: result.description || '',
+        publishedAt: parseDate(result.page_age, now),
+      }));
+    },
+  };
+}
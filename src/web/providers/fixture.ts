@@ -0,0 +1,65 @@
+import { format } from 'date-fns/format';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { SearchProvider, SearchResult } from '../../types.js';
+import { parseDate } from '../../utils/dates.js';
+import { sanitizeFilename } from '../../utils/filename.js';
+
+export interface FixtureProviderOptions {
+  dir: string;
+}
+
+// Replayed for any query that has no fixture file of its own
+const DEFAULT_FIXTURE = 'default.json';
+
+async function readFixture(filePath: string) {
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    const data = JSON.parse(raw) as
+      | SearchResult[]
+      | { results: SearchResult[] };
+    return Array.isArray(data) ? data : data.results;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Replays canned results from `<dir>/<sanitized query>.json`, falling back
+ * to `<dir>/default.json`. Each file holds either a `SearchResult[]` or an
+ * object with a `results` array. Lets the pipeline run without network.
+ */
+export function createFixtureProvider({
+  dir,
+}: FixtureProviderOptions): SearchProvider {
+  return {
+    name: 'fixture',
+    async search(query, { num = 5, since, now } = {}) {
+      const fixturePath = path.join(dir, `${sanitizeFilename(query)}.json`);
+      const results =
+        (await readFixture(fixturePath)) ||
+        (await readFixture(path.join(dir, DEFAULT_FIXTURE)));
+
+      if (!results) {
+        throw new Error(
+          `No search fixture for "${query}" (looked for ${fixturePath} and ${DEFAULT_FIXTURE})`
+        );
+      }
+
+      // Undated fixtures are kept, like undated pages
+      const cutoff = since && format(since, 'yyyy-MM-dd');
+      return results
+        .map((result) => ({
+          ...result,
+          publishedAt: parseDate(result.publishedAt, now),
+        }))
+        .filter(
+          (result) =>
+            !cutoff || !result.publishedAt || result.publishedAt >= cutoff
+        )
+        .slice(0, num);
+    },
+  };
+}
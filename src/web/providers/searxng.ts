@@ -0,0 +1,73 @@
+import { differenceInDays } from 'date-fns';
+import fetch from 'node-fetch';
+
+import { SearchProvider } from '../../types.js';
+import { parseDate } from '../../utils/dates.js';
+
+export interface SearxngProviderOptions {
+  baseUrl?: string;
+}
+
+interface SearxngResponse {
+  results?: {
+    title: string;
+    url: string;
+    content?: string;
+    publishedDate?: string | null;
+  }[];
+}
+
+// SearXNG only knows these ranges, so `since` rounds up to the next one
+const TIME_RANGES = [
+  { range: 'day', days: 1 },
+  { range: 'week', days: 7 },
+  { range: 'month', days: 31 },
+  { range: 'year', days: 366 },
+];
+
+function timeRange(since: Date) {
+  const days = differenceInDays(new Date(), since);
+  return TIME_RANGES.find((range) => days <= range.days)?.range;
+}
+
+/**
+ * Queries a self-hosted SearXNG instance. The instance must have the JSON
+ * output format enabled (`search.formats: [html, json]` in settings.yml).
+ */
+export function createSearxngProvider({
+  baseUrl = process.env.SEARXNG_URL,
+}: SearxngProviderOptions = {}): SearchProvider {
+  if (!baseUrl) {
+    throw new Error('SEARXNG_URL environment variable is required');
+  }
+
+  return {
+    name: 'searxng',
+    async search(query, { num = 5, since, now } = {}) {
+      const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+      const url = new URL('search', base);
+      url.searchParams.set('q', query);
+      url.searchParams.set('format', 'json');
+      const range = since && timeRange(since);
+      if (range) url.searchParams.set('time_range', range);
+
+      const response = await fetch(url.toString(), {
+        headers: { Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `SearXNG search failed with status ${response.status}`
+        );
+      }
+
+      const data = (await response.json()) as SearxngResponse;
+      return (data.results || []).slice(0, num).map((result) => ({
+        title: result.title,
+        link: result.url,
+        snippet: result.content || '',
+        publishedAt: parseDate(result.publishedDate || undefined, now),
+      }));
+    },
+  };
+}
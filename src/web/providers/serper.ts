@@ -0,0 +1,50 @@
+import { format } from 'date-fns/format';
+import fetch from 'node-fetch';
+
+import { SearchProvider, SearchResult } from '../../types.js';
+import { parseDate } from '../../utils/dates.js';
+
+export interface SerperProviderOptions {
+  apiKey?: string;
+}
+
+export function createSerperProvider({
+  apiKey = process.env.SERPER_API_KEY,
+}: SerperProviderOptions = {}): SearchProvider {
+  if (!apiKey) {
+    throw new Error('SERPER_API_KEY environment variable is required');
+  }
+
+  return {
+    name: 'serper',
+    async search(query, { num = 5, since, now } = {}) {
+      const response = await fetch('https://google.serper.dev/search', {
+        method: 'POST',
+        headers: {
+          'X-API-KEY': apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          q: query,
+          num,
+          // Google's custom date range
+          ...(since && { tbs: `cdr:1,cd_min:${format(since, 'M/d/yyyy')}` }),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Serper search failed with status ${response.status}`);
+      }
+
+      const data = (await response.json()) as {
+        organic?: Array<SearchResult & { date?: string }>;
+      };
+      return (data.organic || []).map(({ title, link, snippet, date }) => ({
+        title,
+        link,
+        snippet,
+        publishedAt: parseDate(date, now),
+      }));
+    },
+  };
+}
@@ -0,0 +1,106 @@
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  /** Seconds to wait between requests, if the site asks for it */
+  crawlDelay?: number;
+}
+
+export const ALLOW_ALL: RobotsRules = { allow: [], disallow: [] };
+export const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'] };
+
+interface Group {
+  agents: string[];
+  rules: RobotsRules;
+}
+
+function parseGroups(text: string): Group[] {
+  const groups: Group[] = [];
+  let current: Group | undefined;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!readingAgents || !current) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      // Product tokens only, so `DeepTweetBot/1.0` names `deeptweetbot`.
+      // An empty one names nobody
+      const agent = value.split('/')[0].trim().toLowerCase();
+      if (agent) current.agents.push(agent);
+      readingAgents = true;
+      continue;
+    }
+
+    readingAgents = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) current.rules.allow.push(value);
+    // An empty Disallow allows everything, which is the default anyway
+    if (field === 'disallow' && value) current.rules.disallow.push(value);
+    if (field === 'crawl-delay' && Number.isFinite(Number(value))) {
+      current.rules.crawlDelay = Number(value);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Parses a robots.txt file and returns the rules that apply to
+ * `userAgent`: the groups naming its product token, or the `*` groups when
+ * none do. Tokens match exactly, ignoring case, as RFC 9309 says.
+ */
+export function parseRobots(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const groups = parseGroups(text);
+
+  const named = groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && agent === token)
+  );
+  const matching = named.length
+    ? named
+    : groups.filter((group) => group.agents.includes('*'));
+
+  return matching.reduce<RobotsRules>(
+    (rules, group) => ({
+      allow: [...rules.allow, ...group.rules.allow],
+      disallow: [...rules.disallow, ...group.rules.disallow],
+      crawlDelay: group.rules.crawlDelay ?? rules.crawlDelay,
+    }),
+    { allow: [], disallow: [] }
+  );
+}
+
+// Supports the `*` and `$` wildcards from RFC 9309
+function matchLength(pattern: string, path: string) {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  const match = path.match(new RegExp(`^${source}${anchored ? '$' : ''}`));
+  return match ? pattern.length : -1;
+}
+
+/**
+ * The most specific matching rule wins, and Allow wins a tie. Paths no
+ * rule matches are allowed.
+ */
+export function isAllowed(rules: RobotsRules, url: string) {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.map((pattern) => matchLength(pattern, path)));
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
@@ -0,0 +1,98 @@
+import { differenceInDays } from 'date-fns';
+import { WebContent } from '../types.js';
+import { DomainPolicy, DomainTier } from './policy.js';
+
+const TIER_SCORES: Record<DomainTier, number> = {
+  preferred: 1,
+  primary: 0.9,
+  reputable: 0.75,
+  unknown: 0.5,
+  low: 0.2,
+};
+
+// Pages this long (after condensing) get the full length score
+const FULL_LENGTH = 4000;
+// Older pages lose freshness linearly until this age
+const STALE_DAYS = 5 * 365;
+const AFFILIATE_PENALTY = 0.3;
+
+const AFFILIATE_URL =
+  /[?&](ref|tag|aff|aff_id|affiliate)=|amzn\.to\/|\/(go|recommends|out)\//i;
+const AFFILIATE_TEXT =
+  /affiliate (link|commission)|we may earn (a|an affiliate) commission|as an amazon associate|sponsored (post|content)|paid partnership/i;
+
+export interface SourceSignals {
+  tier: DomainTier;
+  /** Position in its query's results, from 0 */
+  rank?: number;
+  /** Characters of condensed content */
+  length?: number;
+  /** Days since publication, when the page says */
+  ageDays?: number;
+  affiliate: boolean;
+}
+
+/** One row of `source-scores.json` */
+export interface SourceScore {
+  url: string;
+  round: number;
+  /** 0 to 1 */
+  score: number;
+  signals: SourceSignals;
+  kept: boolean;
+  /** Why it was dropped */
+  reason?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Ranks a search result before it's fetched, by how much its domain is
+ * trusted and how high it ranked, less a penalty for affiliate links
+ */
+export function scoreCandidate(
+  policy: DomainPolicy,
+  { url, rank, text }: { url: string; rank: number; text: string }
+): Pick<SourceScore, 'score' | 'signals'> {
+  const tier = policy.tier(url);
+  const affiliate = AFFILIATE_URL.test(url) || AFFILIATE_TEXT.test(text);
+  const score =
+    0.7 * TIER_SCORES[tier] +
+    0.3 / (1 + rank) -
+    (affiliate ? AFFILIATE_PENALTY : 0);
+  return {
+    score: round2(Math.max(0, score)),
+    signals: { tier, rank, affiliate },
+  };
+}
+
+/** Scores a fetched page by domain, length and freshness */
+export function scorePage(
+  policy: DomainPolicy,
+  page: WebContent,
+  now = new Date()
+): Pick<SourceScore, 'score' | 'signals'> {
+  const tier = policy.tier(page.url);
+  const length = page.content.length;
+  const published = page.publishedAt ? new Date(page.publishedAt) : undefined;
+  const ageDays =
+    published && !isNaN(published.getTime())
+      ? Math.max(0, differenceInDays(now, published))
+      : undefined;
+  const affiliate =
+    AFFILIATE_URL.test(page.url) || AFFILIATE_TEXT.test(page.content);
+
+  // Undated pages are neither rewarded nor punished
+  const freshness =
+    ageDays === undefined ? 0.5 : Math.max(0.1, 1 - ageDays / STALE_DAYS);
+  const score =
+    0.4 * TIER_SCORES[tier] +
+    0.3 * Math.min(1, length / FULL_LENGTH) +
+    0.3 * freshness -
+    (affiliate ? AFFILIATE_PENALTY : 0);
+
+  return {
+    score: round2(Math.max(0, score)),
+    signals: { tier, length, ageDays, affiliate },
+  };
+}
@@ -1,121 +1,159 @@
-import { JSDOM, VirtualConsole } from 'jsdom';
-import fetch from 'node-fetch';
-import { cleanText } from '../utils/text';
-import { WebContent } from '../types';
+import { WebContent } from '../types.js';
 import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
-
-export async function parseWeb(url: string): Promise<WebContent> {
-  try {
-    // Fetch with timeout
-    const abortController = new AbortController();
-    const timeout = setTimeout(() => abortController.abort(), 10000);
-
-    const response = await fetch(url, { signal: abortController.signal });
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const htmlString = await response.text();
-    if (!htmlString) return { url, content: '' };
-
-    // Setup virtual console
-    const virtualConsole = new VirtualConsole();
-    virtualConsole.on('error', () => {
-      // No-op to skip console errors
-    });
-
-    // Create DOM
-    const dom = new JSDOM(htmlString, { virtualConsole });
-    const { document } = dom.window;
-
-    // Primary content selectors in order of preference
-    const contentSelectors = [
-      'article',
-      'main',
-      '[role="main"]',
-      '.post-content',
-      '.article-content',
-      '.content',
-      '.entry-content',
-    ];
-
-    // Text-containing elements to extract from
-    const textSelectors = ['p', 'h1, h2, h3, h4, h5, h6', 'li', 'blockquote'];
-
-    let content: Element[] = [];
+import { format } from 'date-fns/format';
+import { ModelRegistry } from '../models.js';
+import { PromptRegistry, createPromptRegistry } from '../prompts/registry.js';
+import { Cache } from '../cache.js';
+import { Config } from '../config.js';
+import { minhash } from './duplicates.js';
+import { ExtractedPage, PageMetadata, extractContent } from './extract.js';
+import { Fetcher } from './fetcher.js';
+import { detectFormat } from './formats/detect.js';
+import { extractJson } from './formats/json.js';
+import { extractPdf } from './formats/pdf.js';
+import { extractPlainText } from './formats/text.js';
+
+export type ScrapeLimits = Config['scrape'];
+
+export interface ParseWebOptions {
+  models: ModelRegistry;
+  /** Where the condense prompt comes from, the built-in one if unset */
+  prompts?: PromptRegistry;
+  cache?: Cache;
+  fetcher: Fetcher;
+  limits: ScrapeLimits;
+  /** Recorded as the access date */
+  now?: Date;
+}
 
-    // Try to find main content container first
-    for (const selector of contentSelectors) {
-      const elements = Array.from(document.querySelectorAll(selector));
-      if (elements.length > 0) {
-        content = elements;
-        break;
-      }
-    }
+interface FetchedPage {
+  contentType?: string;
+  /** Base64, so binary bodies like PDFs survive the JSON cache */
+  body: string;
+}
 
-    // If no main content found, fall back to body
-    if (!content.length) {
-      content = [document.body];
-    }
+async function fetchPage(url: string, fetcher: Fetcher): Promise<FetchedPage> {
+  const { contentType, body } = await fetcher.fetch(url);
+  return { contentType, body: body.toString('base64') };
+}
 
-    // Extract text from content areas
-    const textElements = content.flatMap((container) =>
-      Array.from(container.querySelectorAll(textSelectors.join(',')))
-    );
+async function extractDocument(
+  page: FetchedPage,
+  url: string,
+  limits: ScrapeLimits
+): Promise<ExtractedPage> {
+  const body = Buffer.from(page.body, 'base64');
+
+  switch (detectFormat(body, page.contentType, url)) {
+    case 'pdf':
+      return extractPdf(new Uint8Array(body), {
+        maxPages: limits.maxPdfPages,
+      });
+    case 'json':
+      return extractJson(body.toString('utf-8'));
+    case 'text':
+    case 'markdown':
+      return extractPlainText(body.toString('utf-8'));
+    case 'html':
+      // Score the page for its main content and keep its structure
+      return extractContent(body.toString('utf-8'), url);
+  }
+}
 
-    // Filter and clean text content
-    const rawContent = textElements
-      .map((el) => el.textContent?.trim())
-      .filter((text): text is string => {
-        if (!text) return false;
-        // Filter out short or low-information content
-        if (text.length < 20) return false;
-        // Filter out navigation/menu text
-        if (
-          text.toLowerCase().includes('menu') ||
-          text.toLowerCase().includes('navigation')
-        )
-          return false;
-        // Filter out common UI text
-        if (/^(share|search|subscribe|follow|sign up|login)$/i.test(text))
-          return false;
-        return true;
-      })
-      .map(cleanText)
-      .join(' ')
-      .trim();
+/** A fetched page's main content, before the condense model has seen it */
+export interface ExtractedSource {
+  url: string;
+  /** Empty when the page has no text */
+  markdown: string;
+  metadata: PageMetadata;
+  /** MinHash of the extracted text, for spotting copies before condensing */
+  signature: Uint32Array;
+}
 
-    if (!rawContent) {
-      console.warn(`No text content found for ${url}`);
-      return { url, content: '' };
-    }
+/**
+ * Fetches a page and extracts its main content whatever its format.
+ * Throws when the page can't be fetched.
+ */
+export async function extractSource(
+  url: string,
+  {
+    cache,
+    fetcher,
+    limits,
+  }: Pick<ParseWebOptions, 'cache' | 'fetcher' | 'limits'>
+): Promise<ExtractedSource> {
+  const page = cache
+    ? await cache.wrap('page', { url, encoding: 'base64' }, () =>
+        fetchPage(url, fetcher)
+      )
+    : await fetchPage(url, fetcher);
+  if (!page.body) {
+    return { url, markdown: '', metadata: {}, signature: minhash('') };
+  }
 
-    // Process with GPT-4-mini to extract main content
-    const { text: processedContent } = await generateText({
-      model: openai('gpt-4o-mini'),
-      messages: [
-        {
-          role: 'system',
-          content:
-            'Extract the main information from the text, removing unnecessary details, advertisements, and boilerplate content. Maintain the core message and important details while making the text more concise. Return only the processed content without any additional commentary.',
-        },
-        {
-          role: 'user',
-          content: rawContent,
-        },
-      ],
-    });
+  const { markdown, metadata } = await extractDocument(page, url, limits);
+  // Long reports and datasets would overflow the condense model
+  const truncated =
+    markdown.length > limits.maxChars
+      ? `${markdown.slice(0, limits.maxChars)}\n\n[Truncated]`
+      : markdown;
+  return { url, markdown: truncated, metadata, signature: minhash(truncated) };
+}
 
-    // Extract metadata
-    const { hostname } = new URL(url);
-    const title = document.title?.trim();
+/**
+ * Has the condense model strip what's left of the boilerplate from an
+ * extracted page. A page with no text comes back with empty `content`.
+ */
+export async function condenseSource(
+  { url, markdown, metadata }: ExtractedSource,
+  {
+    models,
+    prompts = createPromptRegistry(),
+    now = new Date(),
+  }: Pick<ParseWebOptions, 'models' | 'prompts' | 'now'>
+): Promise<WebContent> {
+  if (!markdown) return { url, content: '' };
+
+  // Process with GPT-4-mini to extract main content
+  const { text: processedContent } = await generateText({
+    ...models.forPhase('condense'),
+    messages: [
+      {
+        role: 'system',
+        content: prompts.render('condense'),
+      },
+      {
+        role: 'user',
+        content: markdown,
+      },
+    ],
+  });
+
+  const { hostname } = new URL(url);
+
+  return {
+    url,
+    content: processedContent.trim(),
+    hostname,
+    title: metadata.title,
+    canonicalUrl: metadata.canonicalUrl,
+    author: metadata.author,
+    siteName: metadata.siteName,
+    publishedAt: metadata.publishedAt,
+    accessedAt: format(now, 'yyyy-MM-dd'),
+    description: metadata.description,
+  };
+}
 
-    return { url, content: processedContent.trim(), hostname, title };
-  } catch (error) {
-    console.error(`Error parsing ${url}:`, error);
-    return { url, content: '' };
-  }
+/**
+ * Fetches a page, extracts its main content whatever its format and has
+ * the condense model strip what's left of the boilerplate. Throws when the
+ * page can't be fetched. A page with no text comes back with empty
+ * `content`.
+ */
+export async function parseWeb(
+  url: string,
+  options: ParseWebOptions
+): Promise<WebContent> {
+  return condenseSource(await extractSource(url, options), options);
 }
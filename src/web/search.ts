@@ -1,35 +1,49 @@
-import { JSDOM, VirtualConsole } from 'jsdom';
-import fetch from 'node-fetch';
+import { format } from 'date-fns/format';
+import { Cache } from '../cache.js';
+import { Config } from '../config.js';
+import { SearchProvider, SearchResult } from '../types.js';
+import { createBraveProvider } from './providers/brave.js';
+import { createFixtureProvider } from './providers/fixture.js';
+import { createSearxngProvider } from './providers/searxng.js';
+import { createSerperProvider } from './providers/serper.js';
 
-import { SearchResult } from '../types';
-
-const MAX_N_PAGES_SCRAPE = 10;
-const DOMAIN_BLOCKLIST = [
-  'youtube.com',
-  'facebook.com',
-  'twitter.com',
-  'instagram.com',
-];
-
-export async function searchGoogle(query: string): Promise<SearchResult[]> {
-  if (!process.env.SERPER_API_KEY) {
-    throw new Error('SERPER_API_KEY environment variable is required');
+export function createSearchProvider(
+  config: Config['search']
+): SearchProvider {
+  switch (config.provider) {
+    case 'serper':
+      return createSerperProvider();
+    case 'brave':
+      return createBraveProvider();
+    case 'searxng':
+      return createSearxngProvider({ baseUrl: config.searxngUrl });
+    case 'fixture':
+      return createFixtureProvider({ dir: config.fixturesDir });
   }
+}
 
-  const response = await fetch('https://google.serper.dev/search', {
-    method: 'POST',
-    headers: {
-      'X-API-KEY': process.env.SERPER_API_KEY,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      q: query,
-      num: 5, // Get top 5 results
-    }),
-  });
+export async function searchWeb(
+  provider: SearchProvider,
+  query: string,
+  {
+    num = 5,
+    since,
+    now,
+    cache,
+  }: { num?: number; since?: Date; now?: Date; cache?: Cache } = {}
+): Promise<SearchResult[]> {
+  const search = () => provider.search(query, { num, since, now });
+  // By day, so a `recency` span hits the cache for the rest of the day
+  const key = {
+    provider: provider.name,
+    query,
+    num,
+    ...(since && { since: format(since, 'yyyy-MM-dd') }),
+  };
+  const raw = cache ? await cache.wrap('search', key, search) : await search();
 
-  const data = (await response.json()) as { organic?: SearchResult[] };
-  const results = (data.organic || []).map((result) => {
+  // Which of these get used is up to the domain policy
+  return raw.map((result) => {
     try {
       const { hostname } = new URL(result.link);
       return { ...result, hostname };
@@ -37,11 +51,4 @@ export async function searchGoogle(query: string): Promise<SearchResult[]> {
       return result;
     }
   });
-
-  return results
-    .filter(
-      (result) =>
-        !DOMAIN_BLOCKLIST.some((domain) => result.hostname?.includes(domain))
-    )
-    .slice(0, MAX_N_PAGES_SCRAPE);
 }
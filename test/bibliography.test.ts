@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  formatApa,
+  formatBibtex,
+  formatMla,
+  parseNames,
+} from '../src/bibliography';
+import { Reference } from '../src/citations';
+
+const ref: Reference = {
+  url: 'https://example.com/batteries',
+  title: 'Solid state batteries reach the road',
+  site: 'example.com',
+  author: 'Jane Doe, John Smith',
+  publisher: 'Example News',
+  published: '2024-03-03',
+  accessed: '2024-09-01',
+};
+
+describe('parseNames', () => {
+  it('splits a list of people into given and family names', () => {
+    assert.deepEqual(parseNames('Jane Doe, John Smith & Ana de la Cruz'), [
+      { family: 'Doe', given: 'Jane' },
+      { family: 'Smith', given: 'John' },
+      { family: 'Cruz', given: 'Ana de la' },
+    ]);
+    assert.equal(parseNames('Jane Doe and John Smith').length, 2);
+  });
+
+  it('reads "family, initials" as one person', () => {
+    assert.deepEqual(parseNames('Doe, J.'), [{ family: 'Doe', given: 'J.' }]);
+    assert.deepEqual(parseNames('Doe, Jane A.'), [
+      { family: 'Doe', given: 'Jane A.' },
+    ]);
+  });
+
+  it('reads a comma between single words as a list', () => {
+    assert.deepEqual(parseNames('Apple, Google'), [
+      { literal: 'Apple' },
+      { literal: 'Google' },
+    ]);
+  });
+
+  it('keeps organizations whole', () => {
+    for (const name of [
+      'Reuters',
+      'The New York Times',
+      'Bank of England',
+      'Associated Press',
+      'NASA Ames',
+      'Example News Staff',
+      'Office for National Statistics UK Team',
+    ]) {
+      assert.deepEqual(parseNames(name), [{ literal: name }], name);
+    }
+  });
+
+  it('reads nothing from an empty author', () => {
+    assert.deepEqual(parseNames(undefined), []);
+    assert.deepEqual(parseNames('  '), []);
+  });
+});
+
+describe('formatApa', () => {
+  it('lists authors by family name and initials', () => {
+    assert.equal(
+      formatApa(ref),
+      'Doe, J., & Smith, J. (2024, March 3). ' +
+        '*Solid state batteries reach the road.* Example News. ' +
+        'https://example.com/batteries'
+    );
+  });
+
+  it('leads with the title without an author', () => {
+    assert.equal(
+      formatApa({ ...ref, author: undefined }),
+      '*Solid state batteries reach the road.* (2024, March 3). ' +
+        'Example News. https://example.com/batteries'
+    );
+  });
+
+  it('leaves out a publisher that is also the author', () => {
+    assert.equal(
+      formatApa({ ...ref, author: 'Reuters', publisher: 'Reuters' }),
+      'Reuters (2024, March 3). *Solid state batteries reach the road.* ' +
+        'https://example.com/batteries'
+    );
+  });
+
+  it('says when an undated page was read', () => {
+    assert.match(
+      formatApa({ ...ref, published: undefined }),
+      /\(n\.d\.\)\..* Example News\. Retrieved September 1, 2024, from https/
+    );
+  });
+});
+
+describe('formatMla', () => {
+  it('inverts only the first author', () => {
+    assert.equal(
+      formatMla(ref),
+      'Doe, Jane, and John Smith. ' +
+        '“Solid state batteries reach the road.” ' +
+        'Example News, 3 Mar. 2024, example.com/batteries. ' +
+        'Accessed 1 Sept. 2024.'
+    );
+  });
+
+  it('shortens three or more authors to et al.', () => {
+    const many = { ...ref, author: 'Jane Doe, John Smith, Ann Lee' };
+    assert.match(formatMla(many), /^Doe, Jane, et al\. “/);
+  });
+
+  it('keeps organizations as authors as written', () => {
+    const times = { ...ref, author: 'The New York Times' };
+    assert.match(formatMla(times), /^The New York Times\. “/);
+  });
+});
+
+describe('formatBibtex', () => {
+  it('writes @online entries with escaped fields', () => {
+    assert.equal(
+      formatBibtex([{ ...ref, title: 'Batteries & 100% range' }]),
+      [
+        '@online{doe2024,',
+        '  title = {{Batteries \\& 100\\% range}},',
+        '  author = {Doe, Jane and Smith, John},',
+        '  organization = {Example News},',
+        '  date = {2024-03-03},',
+        '  urldate = {2024-09-01},',
+        '  url = {https://example.com/batteries}',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('braces organizations and keeps keys unique', () => {
+    const times = { ...ref, author: 'The New York Times' };
+    const bibtex = formatBibtex([times, times]);
+    assert.match(bibtex, /author = \{\{The New York Times\}\}/);
+    assert.deepEqual(bibtex.match(/@online\{\w+/g), [
+      '@online{thenewyorktimes2024',
+      '@online{thenewyorktimes2024a',
+    ]);
+  });
+
+  it('keys undated, unattributed pages by site', () => {
+    const bare = { ...ref, author: undefined, published: undefined };
+    assert.match(formatBibtex([bare]), /^@online\{examplecomnd,/);
+  });
+});
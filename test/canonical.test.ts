@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { canonicalizeUrl } from '../src/web/canonical';
+
+describe('canonicalizeUrl', () => {
+  it('gives every variant of a page the same key', () => {
+    const variants = [
+      'https://example.com/story',
+      'http://example.com/story',
+      'https://www.example.com/story/',
+      'https://EXAMPLE.com/story#comments',
+      'https://m.example.com/story',
+      'https://example.com/story?utm_source=x&utm_medium=y&fbclid=z',
+    ];
+    for (const url of variants) {
+      assert.equal(canonicalizeUrl(url), 'example.com/story', url);
+    }
+  });
+
+  it('drops AMP versions', () => {
+    for (const url of [
+      'https://example.com/story/amp/',
+      'https://amp.example.com/story',
+      'https://example.com/story?amp=1',
+      'https://example-com.cdn.ampproject.org/c/s/example.com/story',
+    ]) {
+      assert.equal(canonicalizeUrl(url), 'example.com/story', url);
+    }
+    assert.equal(
+      canonicalizeUrl('https://example.com/story.amp.html'),
+      'example.com/story.html'
+    );
+  });
+
+  it('drops index pages', () => {
+    assert.equal(
+      canonicalizeUrl('https://example.com/blog/index.html'),
+      'example.com/blog'
+    );
+    assert.equal(canonicalizeUrl('https://example.com/'), 'example.com');
+  });
+
+  it('keeps parameters that pick the content, sorted', () => {
+    assert.equal(
+      canonicalizeUrl('https://example.com/search?q=batteries&page=2&ref=nav'),
+      'example.com/search?page=2&q=batteries'
+    );
+  });
+
+  it('keeps the case of the path', () => {
+    assert.notEqual(
+      canonicalizeUrl('https://example.com/Story'),
+      canonicalizeUrl('https://example.com/story')
+    );
+  });
+
+  it('returns unparsable URLs as they are', () => {
+    assert.equal(canonicalizeUrl('not a url'), 'not a url');
+  });
+});
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseDate, resolveSince } from '../src/utils/dates';
+
+const now = new Date(2024, 5, 15, 12);
+
+describe('parseDate', () => {
+  it('reads ISO dates as written', () => {
+    assert.equal(parseDate('2024-03-03'), '2024-03-03');
+    assert.equal(parseDate('2024-03-03T23:30:00-05:00'), '2024-03-03');
+    assert.equal(parseDate(' 2024-03-03T10:00:00.000Z '), '2024-03-03');
+  });
+
+  it('reads RFC 2822 dates', () => {
+    assert.equal(parseDate('Sun, 03 Mar 2024 10:00:00 GMT'), '2024-03-03');
+    assert.equal(parseDate('3 Mar 2024 10:00:00 +0200'), '2024-03-03');
+  });
+
+  it('reads dates with the month written out', () => {
+    assert.equal(parseDate('March 3, 2024'), '2024-03-03');
+    assert.equal(parseDate('Sept. 21st, 2023'), '2023-09-21');
+    assert.equal(parseDate('3 march 2024'), '2024-03-03');
+    assert.equal(parseDate('Monday, March 4, 2024'), '2024-03-04');
+    assert.equal(parseDate('May 2024'), '2024-05-01');
+  });
+
+  it('counts relative dates back from now', () => {
+    assert.equal(parseDate('3 days ago', now), '2024-06-12');
+    assert.equal(parseDate('1 week ago', now), '2024-06-08');
+    assert.equal(parseDate('a month ago', now), '2024-05-15');
+    assert.equal(parseDate('2 hours ago', now), '2024-06-15');
+  });
+
+  it('leaves relative dates unread without now', () => {
+    assert.equal(parseDate('3 days ago'), undefined);
+  });
+
+  it('rejects what the Date parser would guess at', () => {
+    for (const value of ['5', 'Page 12', 'May be', '12/03/2024', 'soon']) {
+      assert.equal(parseDate(value, now), undefined, value);
+    }
+  });
+
+  it('rejects days that do not exist', () => {
+    assert.equal(parseDate('2024-02-30'), undefined);
+    assert.equal(parseDate('2024-13-01'), undefined);
+    assert.equal(parseDate('February 30, 2024'), undefined);
+  });
+
+  it('reads nothing from empty values', () => {
+    assert.equal(parseDate(undefined), undefined);
+    assert.equal(parseDate('  '), undefined);
+  });
+});
+
+describe('resolveSince', () => {
+  it('prefers an explicit date', () => {
+    const since = resolveSince({ since: '2024-01-01', recency: 'day' }, now);
+    assert.equal(since?.toISOString().slice(0, 10), '2024-01-01');
+  });
+
+  it('counts recency back from now', () => {
+    assert.deepEqual(
+      resolveSince({ recency: 'week' }, now),
+      new Date(2024, 5, 8, 12)
+    );
+    assert.equal(resolveSince({}, now), undefined);
+  });
+});
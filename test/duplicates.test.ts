@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { minhash, shingles, similarity } from '../src/web/duplicates';
+
+// Numbered sentences, so every five-word run is different
+const article = Array.from(
+  { length: 60 },
+  (_, i) => `Solid state cells number ${i} store more energy than liquid ones.`
+).join(' ');
+const other = Array.from(
+  { length: 60 },
+  (_, i) => `The harbour ferry ${i} leaves at dawn and returns after dusk.`
+).join(' ');
+
+describe('shingles', () => {
+  it('ignores case, punctuation and links', () => {
+    assert.deepEqual(
+      shingles('One two, THREE four five! https://example.com/a'),
+      shingles('one two three four five')
+    );
+  });
+
+  it('gives short texts a single shingle', () => {
+    assert.equal(shingles('just three words').size, 1);
+  });
+
+  it('counts each run of words once', () => {
+    assert.equal(shingles('a b c d e f g').size, 3);
+    assert.equal(shingles('a b c d e a b c d e').size, 5);
+  });
+});
+
+describe('minhash', () => {
+  it('gives the same text the same signature', () => {
+    assert.deepEqual(minhash(article), minhash(article));
+    assert.equal(similarity(minhash(article), minhash(article)), 1);
+  });
+
+  it('finds a lightly edited copy similar', () => {
+    const edited = `Reposted from the wire. ${article.replace(
+      'number 30',
+      'number thirty'
+    )} Share this story.`;
+    assert.ok(similarity(minhash(article), minhash(edited)) > 0.8);
+  });
+
+  it('finds unrelated texts dissimilar', () => {
+    assert.ok(similarity(minhash(article), minhash(other)) < 0.1);
+  });
+
+  it('estimates how much two texts overlap', () => {
+    const half = article.slice(0, article.length / 2);
+    const mixed = `${half} ${other.slice(0, other.length / 2)}`;
+    const estimate = similarity(minhash(article), minhash(mixed));
+    // A third of the shingles are shared, give or take the estimate's error
+    assert.ok(estimate > 0.2 && estimate < 0.5, String(estimate));
+  });
+});
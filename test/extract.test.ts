@@ -0,0 +1,26 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { extractContent } from '../src/web/extract';
+import { FIXTURES_DIR, matchFixture, toJson } from './fixtures';
+
+// Each `<name>.html` is a saved page. `<name>.json` holds the URL it was
+// saved from and the metadata expected from it, `<name>.md` the markdown
+const dir = path.join(FIXTURES_DIR, 'pages');
+const names = (await fs.readdir(dir))
+  .filter((file) => file.endsWith('.html'))
+  .map((file) => path.basename(file, '.html'));
+
+describe('extractContent', () => {
+  for (const name of names) {
+    it(`extracts ${name}.html`, async () => {
+      const html = await fs.readFile(path.join(dir, `${name}.html`), 'utf-8');
+      const expectedPath = path.join(dir, `${name}.json`);
+      const { url } = JSON.parse(await fs.readFile(expectedPath, 'utf-8'));
+
+      const { markdown, metadata } = extractContent(html, url);
+      await matchFixture(path.join(dir, `${name}.md`), `${markdown}\n`);
+      await matchFixture(expectedPath, toJson({ url, metadata }));
+    });
+  }
+});
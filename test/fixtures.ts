@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const FIXTURES_DIR = path.resolve('fixtures');
+
+// `UPDATE_FIXTURES=1 pnpm test` rewrites the expected files instead of
+// comparing with them, for changes to the output that are intended
+const updating = Boolean(process.env.UPDATE_FIXTURES);
+
+/** Compares `actual` with the expected output saved at `filePath` */
+export async function matchFixture(filePath: string, actual: string) {
+  if (updating) {
+    await fs.writeFile(filePath, actual, 'utf-8');
+    return;
+  }
+  const expected = await fs.readFile(filePath, 'utf-8');
+  assert.equal(
+    actual,
+    expected,
+    `${path.relative(process.cwd(), filePath)} is out of date`
+  );
+}
+
+export const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
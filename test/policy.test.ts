@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { configSchema } from '../src/config';
+import { createDomainPolicy, matchesDomain } from '../src/web/policy';
+
+// Fills the rest of the sources config with its defaults
+const policy = (options: Record<string, string[]>) =>
+  createDomainPolicy(configSchema.shape.sources.parse(options));
+
+describe('matchesDomain', () => {
+  it('matches a domain and its subdomains', () => {
+    assert.equal(matchesDomain('example.com', 'example.com'), true);
+    assert.equal(matchesDomain('example.com', 'news.example.com'), true);
+    assert.equal(matchesDomain('example.com', 'www.example.com'), true);
+  });
+
+  it('does not match names that only end the same way', () => {
+    assert.equal(matchesDomain('example.com', 'badexample.com'), false);
+    assert.equal(matchesDomain('example.com', 'example.com.evil.io'), false);
+  });
+
+  it('ignores case, whitespace and www. in the pattern', () => {
+    assert.equal(matchesDomain(' WWW.Example.COM ', 'Example.com'), true);
+  });
+
+  it('lets * match anything', () => {
+    assert.equal(matchesDomain('*.gov', 'nasa.gov'), true);
+    assert.equal(matchesDomain('*.gov', 'data.nasa.gov'), true);
+    assert.equal(matchesDomain('*.gov', 'gov.uk'), false);
+    assert.equal(matchesDomain('pinterest.*', 'pinterest.co.uk'), true);
+    assert.equal(matchesDomain('pinterest.*', 'pinterest'), false);
+  });
+
+  it('treats dots in patterns literally', () => {
+    assert.equal(matchesDomain('*.gov', 'nasaxgov'), false);
+  });
+});
+
+describe('createDomainPolicy', () => {
+  it('excludes blocked domains, naming the pattern', () => {
+    const { exclude } = policy({ block: ['example.com'] });
+    assert.equal(
+      exclude('https://blog.example.com/post'),
+      'blocked by example.com'
+    );
+    assert.equal(exclude('https://example.org/post'), undefined);
+  });
+
+  it('blocks social sites by default', () => {
+    const { exclude } = policy({});
+    assert.equal(
+      exclude('https://www.youtube.com/watch?v=1'),
+      'blocked by youtube.com'
+    );
+  });
+
+  it('excludes domains outside a non-empty allow list', () => {
+    const { exclude } = policy({ allow: ['*.edu'] });
+    assert.equal(exclude('https://mit.edu/news'), undefined);
+    assert.equal(exclude('https://example.com/'), 'not in the allow list');
+  });
+
+  it('lets block win over allow', () => {
+    const { exclude } = policy({ allow: ['*.edu'], block: ['spam.edu'] });
+    assert.equal(exclude('https://spam.edu/'), 'blocked by spam.edu');
+  });
+
+  it('excludes URLs it cannot parse', () => {
+    assert.equal(policy({}).exclude('not a url'), 'invalid URL');
+  });
+
+  it('ranks domains into tiers', () => {
+    const { tier } = policy({ prefer: ['example.com'] });
+    assert.equal(tier('https://docs.example.com/'), 'preferred');
+    assert.equal(tier('https://www.nasa.gov/'), 'primary');
+    assert.equal(tier('https://www.cam.ac.uk/'), 'primary');
+    assert.equal(tier('https://www.reuters.com/world'), 'reputable');
+    assert.equal(tier('https://www.quora.com/q'), 'low');
+    assert.equal(tier('https://someblog.net/'), 'unknown');
+  });
+
+  it('lets preferred domains outrank their own tier', () => {
+    const { tier } = policy({ prefer: ['quora.com'] });
+    assert.equal(tier('https://quora.com/q'), 'preferred');
+  });
+});
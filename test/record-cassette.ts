@@ -0,0 +1,424 @@
+/**
+ * Records the cassette in fixtures/cassettes/solid-state-batteries, which
+ * `pnpm test:replay` replays. Searches come from fixtures/search, pages
+ * from fixtures/pages and every model answer from the script below, so it
+ * records offline and the same way every time: `pnpm record:cassette`.
+ * Record it again when a prompt or the pipeline changes on purpose.
+ */
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { checkRecording, openCassette } from '../src/cassette';
+import { loadConfig } from '../src/config';
+import { readRunInfo } from '../src/checkpoint';
+import { renderOptions } from '../src/post/options';
+import { renderPost } from '../src/post/formats';
+import { defaultPrompts, PromptId } from '../src/prompts/defaults';
+import { research } from '../src/research';
+import { BlogPost } from '../src/schemas';
+import { Fetcher } from '../src/web/fetcher';
+import { FIXTURES_DIR } from './fixtures';
+
+const TOPIC = 'solid-state batteries';
+const CASSETTE_DIR = path.join(
+  FIXTURES_DIR,
+  'cassettes',
+  'solid-state-batteries'
+);
+// Noon UTC, so the dates in prompts are the same in every time zone
+const RECORDED_AT = new Date('2026-09-20T12:00:00Z');
+
+const ARTICLE =
+  'https://griddispatch.example/energy/solid-state-batteries-production';
+const LISTICLE =
+  'https://techbuzz.example/2026/03/solid-state-batteries-secrets';
+const DOCS = 'https://docs.cellsim.dev/guide/cell-models';
+
+// What the scripted writer knows, each fact with the page it comes from
+const SECTIONS = [
+  {
+    title: 'Why a Solid Electrolyte',
+    key_points: [
+      'What the solid electrolyte replaces',
+      'Energy density and charging',
+    ],
+    facts: [
+      [
+        ARTICLE,
+        "A solid electrolyte replaces the flammable liquid in today's lithium-ion cells, which makes a lithium metal anode practical",
+      ],
+      [
+        ARTICLE,
+        'Pilot cells store 350–400 Wh/kg and charge from 10 to 80 percent in 15 minutes, against 250–300 Wh/kg and 25 minutes for NMC cells',
+      ],
+      [
+        LISTICLE,
+        'Solid electrolytes are far less flammable than liquid ones, but a lithium metal anode still stores a lot of energy',
+      ],
+    ],
+  },
+  {
+    title: 'Manufacturing Is the Bottleneck',
+    key_points: [
+      'Yields on pilot lines',
+      'Stack pressure',
+      'When cars get them',
+    ],
+    facts: [
+      [
+        ARTICLE,
+        'Pilot lines still report yields below 60 percent, compared with more than 90 percent for mature lithium-ion production',
+      ],
+      [
+        LISTICLE,
+        'Many designs hold the cell stack under several megapascals of pressure to keep the layers in contact as the anode swells',
+      ],
+      [
+        ARTICLE,
+        'Analysts expect the first cars with solid-state packs in limited numbers by 2028',
+      ],
+    ],
+  },
+  {
+    title: 'Simulating Solid-State Cells',
+    key_points: ['Model parameters', 'Pressure and temperature'],
+    facts: [
+      [
+        DOCS,
+        "CellSim's solid single-particle model needs the electrolyte's ionic conductivity and the stack pressure",
+      ],
+      [
+        DOCS,
+        'Low stack pressure raises interface resistance quickly, so simulate at the pressure the pack actually applies',
+      ],
+      [
+        LISTICLE,
+        'Ionic conductivity in most solid electrolytes drops in the cold, so early cells may need heating in winter',
+      ],
+    ],
+  },
+];
+
+const TITLE = 'Solid-State Batteries: What Stands Between the Lab and the Car';
+
+// Source IDs as the prompt lists them, e.g. `[S2] https://...`
+function sourceIds(text: string) {
+  const ids = new Map<string, string>();
+  for (const [, id, url] of text.matchAll(
+    /\[(S\d+)\] (?:.*?\()?(https:\/\/[^\s,)]+)/g
+  )) {
+    ids.set(url, id);
+  }
+  return ids;
+}
+
+function writeSection(title: string, excerpts: string) {
+  const ids = sourceIds(excerpts);
+  const section = SECTIONS.find((s) => s.title === title)!;
+  return section.facts
+    .filter(([url]) => ids.has(url))
+    .map(([url, fact]) => `${fact}[${ids.get(url)}].`)
+    .join(' ');
+}
+
+const sentences = (text: string) => text.split(/(?<=\.)\s+/).filter(Boolean);
+const withoutMarkers = (text: string) =>
+  text.replace(/\s*\[(S\d+|\^\d+)\]/g, '').trim();
+
+function paragraph(text: string, sources: string): BlogPost['content'][number] {
+  const urls = new Map(
+    Array.from(sourceIds(sources), ([url, id]) => [id, url] as const)
+  );
+  const citations = sentences(text).flatMap((sentence) =>
+    Array.from(sentence.matchAll(/\[(S\d+)\]/g), ([, id]) => ({
+      source_id: id,
+      text: withoutMarkers(sentence).replace(/\.$/, ''),
+      url: urls.get(id) || '',
+    }))
+  );
+  return { type: 'paragraph', text, citations };
+}
+
+function polishPart(part: string, input: string): BlogPost {
+  const [content, sources = ''] = input.split('\n\nAvailable sources:\n');
+  const post: BlogPost = {
+    title: '',
+    subtitle: '',
+    summary: '',
+    content: [],
+    metadata: { reading_time: 1 },
+    references: [],
+  };
+  if (part === 'title') {
+    post.title = content;
+    post.subtitle = 'Why manufacturing, not chemistry, sets the pace';
+  } else if (part === 'summary') {
+    post.summary = content;
+  } else if (part === 'section') {
+    const [title, ...text] = content.split('\n\n');
+    post.content = [
+      { type: 'heading', text: title, level: 2 },
+      paragraph(text.join(' '), sources),
+    ];
+  } else {
+    post.content = [
+      { type: 'heading', text: 'What to Watch', level: 2 },
+      paragraph(content, sources),
+    ];
+  }
+  return post;
+}
+
+function combineParts(parts: BlogPost[]): BlogPost {
+  return {
+    title: parts.find((part) => part.title)?.title || TITLE,
+    subtitle: parts.find((part) => part.subtitle)?.subtitle || '',
+    summary: parts.find((part) => part.summary)?.summary || '',
+    content: parts.flatMap((part) => part.content),
+    metadata: {
+      reading_time: 2,
+      technical_level: 3,
+      tags: ['batteries', 'electric vehicles', 'manufacturing'],
+    },
+    references: [],
+  };
+}
+
+// Every claim with a number or a name in it, quoted up to its marker
+function extractClaims(text: string) {
+  return {
+    claims: sentences(text)
+      .map((sentence) => sentence.split('[^')[0].replace(/\.$/, '').trim())
+      .filter((quote) => /\d|[A-Z][a-z]+[A-Z]/.test(quote.slice(1)))
+      .map((quote) => ({ claim: quote, quote })),
+  };
+}
+
+// Supported when a passage has the claim's figures, or its longest word
+function judgeClaims(text: string) {
+  return {
+    verdicts: text.split('\n\n---\n\n').map((block, i) => {
+      const [claimLine, passageText = ''] = block.split('\n\nPassages:\n');
+      const claim = claimLine.replace(/^Claim \d+: /, '');
+      const passages = passageText.split(/\n\n(?=\[S\d+\] )/);
+      const numbers = claim.match(/\d+/g);
+      const longest = claim
+        .split(/\W+/)
+        .reduce((a, b) => (b.length > a.length ? b : a), '');
+      const evidence = passages.filter((passage) =>
+        numbers
+          ? numbers.every((n) => passage.includes(n))
+          : passage.toLowerCase().includes(longest.toLowerCase())
+      );
+      return {
+        claim_index: i + 1,
+        verdict: evidence.length
+          ? ('supported' as const)
+          : ('unsupported' as const),
+        evidence_ids: evidence.map(
+          (passage) => passage.match(/^\[(S\d+)\]/)![1]
+        ),
+        explanation: evidence.length
+          ? 'A passage states it.'
+          : 'No passage states it.',
+      };
+    }),
+  };
+}
+
+function analyzeSources(text: string) {
+  const learnings = Array.from(
+    text.matchAll(/^Source: (.+)\n(?:#.*\n+)?(?:By .*\n+)?(.+?\.)\s/gm),
+    ([, title, sentence]) => `${title}: ${sentence}`
+  );
+  return {
+    learnings,
+    gaps: ['How long do solid-state cells last in real vehicles?'],
+    sufficient: true,
+  };
+}
+
+// The system prompt's text before its first variable tells them apart
+const promptPrefixes = Object.entries(defaultPrompts).map(
+  ([id, { template }]) => [id as PromptId, template.split('{{')[0]] as const
+);
+
+function answer(system: string, user: string): unknown {
+  const id = promptPrefixes.find(([, prefix]) =>
+    system.startsWith(prefix)
+  )?.[0];
+  switch (id) {
+    case 'query':
+      return user.split('Current Question:').pop()!.trim();
+    case 'condense':
+      return user;
+    case 'analyze':
+      return analyzeSources(user);
+    case 'outline':
+      return {
+        title: TITLE,
+        sections: SECTIONS.map(({ title, key_points }) => ({
+          title,
+          key_points,
+        })),
+      };
+    case 'section':
+      return writeSection(user.match(/^Section title: (.*)$/m)![1], user);
+    case 'summary':
+      return user
+        .split('\n\n')
+        .map((text) => sentences(text)[0])
+        .join(' ');
+    case 'conclusion':
+      return [
+        'Solid-state cells are real and improving, but the next few years belong to pilot lines rather than showrooms.',
+        ...user.split('\n\n').map((text) => sentences(text).slice(-1)[0]),
+      ].join(' ');
+    case 'polish':
+      return polishPart(system.match(/^Improve this (\w+) section/)![1], user);
+    case 'combine':
+      return combineParts(JSON.parse(user));
+    case 'final':
+    case 'revise':
+      return JSON.parse(user);
+    case 'claims':
+      return extractClaims(user);
+    case 'judge':
+      return judgeClaims(user);
+    default:
+      throw new Error(
+        `No scripted answer for the prompt "${system.slice(0, 60)}"`
+      );
+  }
+}
+
+// Hashed bag of words, enough for related text to rank above the rest
+function embed(text: string) {
+  const vector = new Array<number>(32).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % vector.length] += 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => Math.round((value / norm) * 1e4) / 1e4);
+}
+
+const tokens = (value: unknown) => Math.ceil(JSON.stringify(value).length / 4);
+const json = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'content-type': 'application/json' },
+  });
+
+// Stands in for the OpenAI API the default models call
+const scriptedOpenAI: typeof fetch = async (input, init) => {
+  const url = String(input instanceof Request ? input.url : input);
+  const body = JSON.parse(String(init?.body));
+
+  if (url.endsWith('/embeddings')) {
+    return json({
+      object: 'list',
+      model: body.model,
+      data: body.input.map((text: string, index: number) => ({
+        object: 'embedding',
+        index,
+        embedding: embed(text),
+      })),
+      usage: {
+        prompt_tokens: tokens(body.input),
+        total_tokens: tokens(body.input),
+      },
+    });
+  }
+
+  const [system, ...rest] = body.messages;
+  const user = rest[rest.length - 1].content;
+  const result = answer(system.content, user);
+  const tool = body.tools?.[0]?.function.name;
+  const message = tool
+    ? {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: tool, arguments: JSON.stringify(result) },
+          },
+        ],
+      }
+    : {
+        role: 'assistant',
+        content: typeof result === 'string' ? result : JSON.stringify(result),
+      };
+  const usage = {
+    prompt_tokens: tokens(body.messages),
+    completion_tokens: tokens(result),
+  };
+  return json({
+    id: 'chatcmpl-scripted',
+    object: 'chat.completion',
+    created: RECORDED_AT.getTime() / 1000,
+    model: body.model,
+    choices: [
+      { index: 0, message, finish_reason: tool ? 'tool_calls' : 'stop' },
+    ],
+    usage: {
+      ...usage,
+      total_tokens: usage.prompt_tokens + usage.completion_tokens,
+    },
+  });
+};
+
+// Serves the saved pages by the URLs they were saved from
+async function createPageFetcher(): Promise<Fetcher> {
+  const dir = path.join(FIXTURES_DIR, 'pages');
+  const pages = new Map<string, string>();
+  for (const file of await fs.readdir(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const { url } = JSON.parse(
+      await fs.readFile(path.join(dir, file), 'utf-8')
+    );
+    pages.set(url, path.join(dir, `${path.basename(file, '.json')}.html`));
+  }
+  return {
+    async fetch(url) {
+      const page = pages.get(url);
+      if (!page) throw new Error(`HTTP 404 for ${url}`);
+      return { url, contentType: 'text/html', body: await fs.readFile(page) };
+    },
+  };
+}
+
+// Dates in prompts are formatted in the local time zone
+process.env.TZ = 'UTC';
+globalThis.fetch = scriptedOpenAI;
+process.env.OPENAI_API_KEY = 'scripted';
+
+const config = await loadConfig(
+  path.join(CASSETTE_DIR, 'deeptweet.config.json')
+);
+const cassette = await openCassette(CASSETTE_DIR, 'record', {
+  recordedAt: RECORDED_AT,
+});
+const runDir = await fs.mkdtemp(path.join(os.tmpdir(), 'deeptweet-record-'));
+try {
+  const { post } = await research(TOPIC, {
+    config,
+    cassette,
+    fetcher: await createPageFetcher(),
+    runDir,
+    onEvent: (event) => {
+      if (event.type === 'warning') console.warn(event.message);
+    },
+  });
+  const { createdAt } = await readRunInfo(runDir);
+  const options = renderOptions(post!, {
+    topic: TOPIC,
+    date: new Date(createdAt),
+  });
+  await checkRecording(cassette, renderPost(post!, 'md', options));
+  console.log(`Recorded ${path.relative(process.cwd(), CASSETTE_DIR)}`);
+} finally {
+  await fs.rm(runDir, { recursive: true, force: true });
+}
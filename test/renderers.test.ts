@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { postFormats, postRenderers, renderPost } from '../src/post/formats';
+import { blogPostSchema } from '../src/schemas';
+import { sanitizeFilename } from '../src/utils/filename';
+import { FIXTURES_DIR, matchFixture } from './fixtures';
+
+// One finished post, rendered in every format and compared with the files
+// a run would write for it
+const dir = path.join(FIXTURES_DIR, 'post');
+const fixture = JSON.parse(
+  await fs.readFile(path.join(dir, 'blog-post.json'), 'utf-8')
+);
+const post = blogPostSchema.parse(fixture.post);
+const options = {
+  topic: fixture.topic,
+  date: fixture.date,
+  slug: sanitizeFilename(post.title),
+};
+
+describe('post renderers', () => {
+  for (const format of postFormats) {
+    const { extension } = postRenderers[format];
+    it(`renders ${format}`, async () => {
+      await matchFixture(
+        path.join(dir, 'expected', `post.${extension}`),
+        renderPost(post, format, options)
+      );
+    });
+  }
+
+  it('escapes dates in HTML', () => {
+    const html = renderPost(
+      {
+        ...post,
+        references: post.references.map((ref) => ({
+          ...ref,
+          published: '2024-01-01"><script>alert(1)</script>',
+        })),
+      },
+      'html',
+      { ...options, date: '<b>2024</b>' }
+    );
+    assert.ok(!html.includes('<script>'));
+    assert.ok(!html.includes('<b>'));
+  });
+});
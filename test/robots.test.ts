@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  isAllowed,
+  parseRobots,
+} from '../src/web/robots';
+
+const AGENT = 'DeepTweetBot/1.0 (+https://example.com/bot)';
+
+const robots = `
+# Everyone else
+User-agent: *
+Disallow: /private
+Crawl-delay: 2
+
+User-agent: DeepTweetBot
+User-agent: OtherBot
+Disallow: /drafts/
+Allow: /drafts/public
+Crawl-delay: 5
+
+User-agent: DeepTweetBotExtra
+Disallow: /
+`;
+
+describe('parseRobots', () => {
+  it('picks the groups naming the product token', () => {
+    assert.deepEqual(parseRobots(robots, AGENT), {
+      allow: ['/drafts/public'],
+      disallow: ['/drafts/'],
+      crawlDelay: 5,
+    });
+  });
+
+  it('matches tokens exactly, ignoring case', () => {
+    const rules = parseRobots(robots, 'deeptweetbot');
+    assert.deepEqual(rules.disallow, ['/drafts/']);
+  });
+
+  it('falls back to the * groups', () => {
+    assert.deepEqual(parseRobots(robots, 'SomeCrawler/2.0'), {
+      allow: [],
+      disallow: ['/private'],
+      crawlDelay: 2,
+    });
+  });
+
+  it('merges groups naming the same agent', () => {
+    const text = 'User-agent: *\nDisallow: /a\n\nUser-agent: *\nDisallow: /b\n';
+    assert.deepEqual(parseRobots(text, AGENT).disallow, ['/a', '/b']);
+  });
+
+  it('ignores empty disallows and rules before any group', () => {
+    const text = 'Disallow: /early\nUser-agent: *\nDisallow:\n';
+    const rules = parseRobots(text, AGENT);
+    assert.deepEqual([rules.allow, rules.disallow], [[], []]);
+  });
+
+  it('places no restrictions without a file', () => {
+    assert.deepEqual(parseRobots('', AGENT), { allow: [], disallow: [] });
+  });
+});
+
+describe('isAllowed', () => {
+  const rules = {
+    allow: ['/shop/*.html$', '/docs/public'],
+    disallow: ['/shop/', '/docs', '/*?session='],
+  };
+  const allowed = (path: string) =>
+    isAllowed(rules, `https://example.com${path}`);
+
+  it('lets the longest matching rule win', () => {
+    assert.equal(allowed('/docs/public/intro'), true);
+    assert.equal(allowed('/docs/private'), false);
+  });
+
+  it('supports * and $ wildcards', () => {
+    assert.equal(allowed('/shop/cart.html'), true);
+    assert.equal(allowed('/shop/cart.html?x=1'), false);
+    assert.equal(allowed('/shop/cart'), false);
+    assert.equal(allowed('/blog?session=abc'), false);
+  });
+
+  it('lets Allow win a tie', () => {
+    const tie = { allow: ['/page'], disallow: ['/page'] };
+    assert.equal(isAllowed(tie, 'https://example.com/page'), true);
+  });
+
+  it('allows paths no rule matches', () => {
+    assert.equal(allowed('/blog/post'), true);
+    assert.equal(isAllowed(ALLOW_ALL, 'https://example.com/any'), true);
+    assert.equal(isAllowed(DISALLOW_ALL, 'https://example.com/any'), false);
+  });
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunkText } from '../src/utils/text';
+
+// Sentences of exactly 100 characters, numbered so chunks can be told apart
+const sentences = Array.from(
+  { length: 12 },
+  (_, i) => `Sentence ${String(i).padStart(2, '0')} ${'x'.repeat(87)}.`
+);
+const text = sentences.join(' ');
+
+describe('chunkText', () => {
+  it('repeats nothing without overlap', () => {
+    const chunks = chunkText(text, { chunkSize: 350, overlap: 0 });
+    assert.deepEqual(chunks, [
+      sentences.slice(0, 3).join(' '),
+      sentences.slice(3, 6).join(' '),
+      sentences.slice(6, 9).join(' '),
+      sentences.slice(9, 12).join(' '),
+    ]);
+  });
+
+  it('treats an overlap under one word as none', () => {
+    const chunks = chunkText(text, { chunkSize: 350, overlap: 9 });
+    assert.equal(chunks.join(' '), text);
+  });
+
+  it('carries the end of a chunk into the next', () => {
+    const chunks = chunkText(text, { chunkSize: 350, overlap: 20 });
+    assert.ok(chunks[1].startsWith(`02 ${'x'.repeat(87)}. Sentence 03`));
+  });
+
+  it('keeps every chunk within chunkSize', () => {
+    const long = `${'word '.repeat(300)}${'y'.repeat(900)}.`;
+    for (const overlap of [0, 50, 200]) {
+      const chunks = chunkText(`${text} ${long}`, {
+        chunkSize: 300,
+        overlap,
+      });
+      assert.ok(chunks.every((chunk) => chunk.length <= 300));
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  countTweetLength,
+  splitTweet,
+  truncateTweet,
+} from '../src/utils/tweet';
+
+describe('countTweetLength', () => {
+  it('counts plain text by character', () => {
+    assert.equal(countTweetLength('Hello, world'), 12);
+  });
+
+  it('weighs every link as a t.co URL', () => {
+    const url = `https://example.com/${'a'.repeat(100)}`;
+    assert.equal(countTweetLength(`Read ${url}`), 5 + 23);
+    assert.equal(countTweetLength('http://a.co https://b.co'), 23 + 1 + 23);
+  });
+
+  it('counts wide characters twice', () => {
+    assert.equal(countTweetLength('日本語'), 6);
+    assert.equal(countTweetLength('ok 🚀'), 3 + 2);
+    // General punctuation stays single weight
+    assert.equal(countTweetLength('a—b'), 3);
+  });
+
+  it('normalizes before counting', () => {
+    assert.equal(countTweetLength('é'), 1);
+  });
+});
+
+describe('splitTweet', () => {
+  it('keeps text that fits as one piece', () => {
+    assert.deepEqual(splitTweet('One. Two.'), ['One. Two.']);
+  });
+
+  it('prefers sentence boundaries', () => {
+    const text = 'First sentence here. Second one follows.';
+    assert.deepEqual(splitTweet(text, 25), [
+      'First sentence here.',
+      'Second one follows.',
+    ]);
+  });
+
+  it('falls back to words for long sentences', () => {
+    const pieces = splitTweet('alpha beta gamma delta epsilon', 12);
+    assert.deepEqual(pieces, ['alpha beta', 'gamma delta', 'epsilon']);
+  });
+
+  it('cuts words longer than a tweet', () => {
+    const pieces = splitTweet('x'.repeat(600));
+    assert.deepEqual(
+      pieces.map((piece) => piece.length),
+      [280, 280, 40]
+    );
+  });
+
+  it('cuts wide words by weight, not length', () => {
+    const pieces = splitTweet('日'.repeat(200));
+    assert.deepEqual(
+      pieces.map((piece) => countTweetLength(piece)),
+      [280, 120]
+    );
+  });
+});
+
+describe('truncateTweet', () => {
+  it('leaves text that fits alone', () => {
+    assert.equal(truncateTweet('Short enough', 20), 'Short enough');
+  });
+
+  it('ends cut text with an ellipsis', () => {
+    // The ellipsis itself is a wide character
+    const cut = truncateTweet('The quick brown fox jumps', 17);
+    assert.equal(cut, 'The quick brown…');
+    assert.equal(countTweetLength(cut), 17);
+  });
+
+  it('counts wide characters while cutting', () => {
+    const cut = truncateTweet('日'.repeat(20), 12);
+    assert.equal(cut, `${'日'.repeat(5)}…`);
+  });
+
+  it('returns nothing when links leave no room', () => {
+    assert.equal(truncateTweet('Any text at all', 0), '');
+    assert.equal(truncateTweet('Any text at all', -12), '');
+  });
+});